@@ -0,0 +1,107 @@
+/**
+ * Belief Aggregation
+ * ==================
+ *
+ * How a claim's signals from many sources become one local belief.
+ * Each source contributes its latest stance, weighted by its influence.
+ *
+ * - last-writer-wins: the newest signal decides, ignoring weights
+ * - reputation-weighted: influence-weighted mean of signed confidences
+ * - log-odds: each stance is evidence for or against the claim, summed
+ *   as influence-weighted log-odds, so agreeing sources compound
+ *
+ * A fresh identity starts at `newPeerInfluence`, so under the weighted
+ * strategies one new source cannot outvote established ones by
+ * signing later.
+ */
+
+import { Stance, SourceContribution, SwarmConfig } from './types/index.js';
+
+export interface Aggregate {
+  stance: Stance;
+  confidence: number;
+}
+
+export interface AggregationStrategy {
+  readonly name: string;
+
+  /**
+   * Combine sources' latest stances. `latest` is what last-writer-wins
+   * would decide.
+   */
+  aggregate(contributions: SourceContribution[], latest: Aggregate): Aggregate;
+}
+
+/**
+ * Probabilities are clamped this far from 0 and 1, so a confidence of
+ * 1.0 is strong evidence rather than infinite evidence
+ */
+const LOG_ODDS_EPSILON = 1e-3;
+
+export const lastWriterWins: AggregationStrategy = {
+  name: 'last-writer-wins',
+  aggregate: (_contributions, latest) => latest,
+};
+
+export const reputationWeighted: AggregationStrategy = {
+  name: 'reputation-weighted',
+  aggregate(contributions) {
+    let total = 0;
+    let net = 0;
+    for (const c of contributions) {
+      total += c.weight;
+      net += c.weight * c.confidence * polarity(c.stance);
+    }
+    if (total === 0) return { stance: 'unknown', confidence: 0 };
+    return fromNet(net / total, contributions);
+  },
+};
+
+export const logOdds: AggregationStrategy = {
+  name: 'log-odds',
+  aggregate(contributions) {
+    let sum = 0;
+    for (const c of contributions) {
+      const p = clamp(0.5 + polarity(c.stance) * c.confidence / 2);
+      sum += c.weight * Math.log(p / (1 - p));
+    }
+    const probability = 1 / (1 + Math.exp(-sum));
+    return fromNet(2 * probability - 1, contributions);
+  },
+};
+
+/**
+ * Look up a built-in strategy by name
+ */
+export function aggregationStrategy(name: SwarmConfig['beliefAggregation']): AggregationStrategy {
+  switch (name) {
+    case 'reputation-weighted': return reputationWeighted;
+    case 'log-odds': return logOdds;
+    default: return lastWriterWins;
+  }
+}
+
+/**
+ * Direction a stance pushes the claim: retractions and unknowns only
+ * dilute the others
+ */
+function polarity(stance: Stance): number {
+  if (stance === 'strengthen') return 1;
+  if (stance === 'weaken') return -1;
+  return 0;
+}
+
+/**
+ * Stance and confidence from a net score in [-1, 1]. A tie among sources
+ * that all retracted is a retraction; any other tie is unknown.
+ */
+function fromNet(net: number, contributions: SourceContribution[]): Aggregate {
+  if (net > 0) return { stance: 'strengthen', confidence: Math.min(1, net) };
+  if (net < 0) return { stance: 'weaken', confidence: Math.min(1, -net) };
+  const retracted = contributions.length > 0 && contributions.every(c => c.stance === 'retract');
+  return { stance: retracted ? 'retract' : 'unknown', confidence: 0 };
+}
+
+function clamp(p: number): number {
+  return Math.min(1 - LOG_ODDS_EPSILON, Math.max(LOG_ODDS_EPSILON, p));
+}
@@ -17,6 +17,7 @@ import {
 import { ConflictAccumulator } from './conflict.js';
 import { ReputationSystem } from './security/reputation.js';
 import { QuarantineSystem } from './security/quarantine.js';
+import { EvidenceStore } from './evidence.js';
 import { nowMs, generateId } from './util/hash.js';
 
 export interface Proposal {
@@ -25,9 +26,11 @@ export interface Proposal {
   options: string[];
   proposedAt: number;
   proposedBy: PeerId;
-  votes: Map<PeerId, { option: string; weight: number; ts: number }>;
+  votes: Map<PeerId, { option: string; weight: number; ts: number; evidenceHash?: string }>;
   resolved: boolean;
   winner?: string;
+  counted?: Array<{ voter: PeerId; option: string; weight: number }>;   // Weights as tallied
+  needsReview?: boolean;   // Depended on a vote or claim later revoked
 }
 
 export interface ArbitrationCallbacks {
@@ -46,7 +49,8 @@ export class Arbitration {
     private conflicts: ConflictAccumulator,
     private reputation: ReputationSystem,
     private quarantine: QuarantineSystem,
-    config: Partial<SwarmConfig> = {}
+    config: Partial<SwarmConfig> = {},
+    private evidence?: EvidenceStore
   ) {
     this.config = { ...DEFAULT_CONFIG, ...config };
   }
@@ -99,9 +103,9 @@ export class Arbitration {
   }
 
   /**
-   * Vote on a proposal
+   * Vote on a proposal, optionally citing evidence for the option
    */
-  vote(proposalId: string, option: string): void {
+  vote(proposalId: string, option: string, evidenceHash?: string): void {
     const proposal = this.proposals.get(proposalId);
     if (!proposal || proposal.resolved) return;
     if (!proposal.options.includes(option)) return;
@@ -113,7 +117,7 @@ export class Arbitration {
     const weight = this.reputation.getInfluence(this.transport.id);
 
     // Record our vote locally
-    proposal.votes.set(this.transport.id, { option, weight, ts: nowMs() });
+    proposal.votes.set(this.transport.id, { option, weight, ts: nowMs(), evidenceHash });
 
     // Broadcast vote
     this.transport.broadcast({
@@ -123,6 +127,7 @@ export class Arbitration {
       proposalId,
       option,
       weight,
+      evidenceHash,
     });
   }
 
@@ -138,16 +143,23 @@ export class Arbitration {
       scores.set(opt, 0);
     }
 
+    const counted: NonNullable<Proposal['counted']> = [];
     for (const [peerId, vote] of proposal.votes) {
       // Check if voter is quarantined (votes don't count)
       if (this.quarantine.isQuarantined(peerId)) continue;
       
       // Get current influence (may have changed since vote)
       const currentWeight = this.reputation.getInfluence(peerId);
-      const effectiveWeight = Math.min(vote.weight, currentWeight);
+      let effectiveWeight = Math.min(vote.weight, currentWeight);
+
+      // Votes citing verified evidence outweigh bare votes
+      if (vote.evidenceHash && this.evidence?.has(vote.evidenceHash)) {
+        effectiveWeight *= this.config.evidenceWeight;
+      }
 
       const current = scores.get(vote.option) ?? 0;
       scores.set(vote.option, current + effectiveWeight);
+      counted.push({ voter: peerId, option: vote.option, weight: effectiveWeight });
     }
 
     // Find winner
@@ -164,6 +176,7 @@ export class Arbitration {
     if (winner) {
       proposal.resolved = true;
       proposal.winner = winner;
+      proposal.counted = counted;
       this.conflicts.resolve(proposal.claimHash);
       this.callbacks.onResolved?.(proposal, winner);
     }
@@ -220,12 +233,56 @@ export class Arbitration {
     proposal.votes.set(m.from, { 
       option: m.option, 
       weight: effectiveWeight, 
-      ts: m.ts 
+      ts: m.ts,
+      evidenceHash: m.evidenceHash,
     });
 
+    // Retrieve cited evidence so it can count at tally time
+    if (m.evidenceHash) {
+      void this.evidence?.fetch(m.evidenceHash, m.from);
+    }
+
     this.callbacks.onVoteReceived?.(m.proposalId, m.from, m.option);
   }
 
+  /**
+   * Flag proposals a peer proposed or voted on in [from, until).
+   * Returns the flagged proposal ids.
+   */
+  flagVoter(peerId: PeerId, from: number, until?: number): string[] {
+    const inRange = (ts: number) => ts >= from && (until === undefined || ts < until);
+    const flagged: string[] = [];
+
+    for (const proposal of this.proposals.values()) {
+      const vote = proposal.votes.get(peerId);
+      const proposed = proposal.proposedBy === peerId && inRange(proposal.proposedAt);
+      if (proposed || (vote && inRange(vote.ts))) {
+        proposal.needsReview = true;
+        flagged.push(proposal.id);
+      }
+    }
+
+    return flagged;
+  }
+
+  /**
+   * Flag proposals about claims whose beliefs changed under them.
+   * Returns the flagged proposal ids.
+   */
+  flagClaims(claimHashes: string[]): string[] {
+    const claims = new Set(claimHashes);
+    const flagged: string[] = [];
+
+    for (const proposal of this.proposals.values()) {
+      if (claims.has(proposal.claimHash)) {
+        proposal.needsReview = true;
+        flagged.push(proposal.id);
+      }
+    }
+
+    return flagged;
+  }
+
   /**
    * Get a proposal
    */
@@ -261,6 +318,7 @@ export class Arbitration {
     resolved: boolean;
     winner?: string;
     voteCount: number;
+    needsReview?: boolean;
   }> {
     return Array.from(this.proposals.values()).map(p => ({
       id: p.id,
@@ -268,6 +326,7 @@ export class Arbitration {
       resolved: p.resolved,
       winner: p.winner,
       voteCount: p.votes.size,
+      needsReview: p.needsReview,
     }));
   }
 }
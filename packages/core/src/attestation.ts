@@ -0,0 +1,371 @@
+/**
+ * Attestation
+ * ===========
+ * 
+ * Portable proof that the swarm agreed on an arbitration outcome.
+ * The tallying node publishes the votes it counted; each voter whose
+ * vote is recorded correctly co-signs. Once signers holding enough of
+ * the counted weight have signed, the statement and signatures form a
+ * certificate anyone can check offline against the voters' keys.
+ */
+
+import * as ed from '@noble/ed25519';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import {
+  Transport,
+  WireMessage,
+  PeerId,
+  AttestationStatement,
+  AttestationCertificate,
+  SwarmConfig,
+  DEFAULT_CONFIG,
+  ATTESTATION_VERSION
+} from './types/index.js';
+import { Arbitration, Proposal } from './arbitration.js';
+import { QuarantineSystem } from './security/quarantine.js';
+import { canonicalJson, nowMs } from './util/hash.js';
+
+export interface AttestationCallbacks {
+  onCertified?: (certificate: AttestationCertificate) => void;
+  onRejected?: (proposalId: string, from: PeerId, reason: string) => void;
+}
+
+export interface CertificateCheck {
+  valid: boolean;
+  signedWeight: number;
+  totalWeight: number;
+  reason?: string;
+}
+
+export function attestationHash(statement: AttestationStatement): Uint8Array {
+  return sha256(utf8ToBytes(canonicalJson(statement)));
+}
+
+/**
+ * The option the statement's votes elect, using the arbitration tally
+ * rule: highest weight wins, earlier options win ties
+ */
+export function statementWinner(statement: AttestationStatement): string | null {
+  let winner: string | null = null;
+  let maxScore = 0;
+  for (const option of statement.options) {
+    const score = statement.votes
+      .filter(v => v.option === option)
+      .reduce((sum, v) => sum + v.weight, 0);
+    if (score > maxScore) {
+      maxScore = score;
+      winner = option;
+    }
+  }
+  return winner;
+}
+
+/**
+ * Check that a statement has the fields verification reads
+ */
+export function isAttestationStatement(value: unknown): value is AttestationStatement {
+  if (typeof value !== 'object' || value === null) return false;
+  const s = value as Partial<AttestationStatement>;
+  const text = (x: unknown) => typeof x === 'string';
+  return text(s.proposal_id) && text(s.claim_hash) && text(s.winner) && text(s.issued_by) &&
+    Number.isFinite(s.v) && Number.isFinite(s.threshold) && Number.isFinite(s.issued_at) &&
+    Array.isArray(s.options) && s.options.every(text) &&
+    Array.isArray(s.votes) && s.votes.every(v =>
+      typeof v === 'object' && v !== null && text(v.voter) && text(v.option) &&
+      Number.isFinite(v.weight) && v.weight >= 0
+    );
+}
+
+/**
+ * Check that a threshold is a usable fraction no laxer than `minThreshold`
+ */
+function thresholdProblem(threshold: number, minThreshold: number): string | undefined {
+  if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 1) return 'Threshold out of range';
+  if (threshold < minThreshold) return 'Threshold below minimum';
+  return undefined;
+}
+
+/**
+ * Verify one voter's signature over a statement
+ */
+export async function verifyAttestationSignature(
+  statement: AttestationStatement,
+  signer: PeerId,
+  signature: string
+): Promise<boolean> {
+  try {
+    return await ed.verifyAsync(hexToBytes(signature), attestationHash(statement), hexToBytes(signer));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Total weight of the votes cast by the given signers
+ */
+function signedWeight(statement: AttestationStatement, signers: PeerId[]): number {
+  const set = new Set(signers);
+  return statement.votes
+    .filter(v => set.has(v.voter))
+    .reduce((sum, v) => sum + v.weight, 0);
+}
+
+/**
+ * Verify a certificate without any swarm state. The statement names its
+ * own threshold, so the verifier sets the least it will accept.
+ */
+export async function verifyCertificate(
+  certificate: AttestationCertificate,
+  minThreshold = DEFAULT_CONFIG.attestationThreshold
+): Promise<CertificateCheck> {
+  const { statement, signatures } = (certificate ?? {}) as Partial<AttestationCertificate>;
+  const wellFormed = isAttestationStatement(statement) && Array.isArray(signatures) &&
+    signatures.every(s => typeof s === 'object' && s !== null &&
+      typeof s.signer === 'string' && typeof s.signature === 'string');
+  if (!wellFormed) return { valid: false, signedWeight: 0, totalWeight: 0, reason: 'Malformed certificate' };
+
+  const weights = new Map(statement.votes.map(v => [v.voter, v.weight]));
+  const totalWeight = statement.votes.reduce((sum, v) => sum + v.weight, 0);
+  const fail = (reason: string): CertificateCheck => ({ valid: false, signedWeight: 0, totalWeight, reason });
+
+  if (statement.v !== ATTESTATION_VERSION) return fail('Unsupported version');
+  const thresholdIssue = thresholdProblem(statement.threshold, minThreshold);
+  if (thresholdIssue) return fail(thresholdIssue);
+  if (signatures.length === 0) return fail('No signatures');
+  if (weights.size !== statement.votes.length) return fail('Duplicate voter');
+  if (totalWeight <= 0) return fail('No counted weight');
+  if (statementWinner(statement) !== statement.winner) return fail('Winner does not follow from votes');
+
+  const signers = new Set<PeerId>();
+  for (const { signer, signature } of signatures) {
+    if (!weights.has(signer)) return fail(`Signer did not vote: ${signer}`);
+    if (signers.has(signer)) return fail(`Duplicate signer: ${signer}`);
+    if (!await verifyAttestationSignature(statement, signer, signature)) {
+      return fail(`Invalid signature: ${signer}`);
+    }
+    signers.add(signer);
+  }
+
+  const signed = signedWeight(statement, Array.from(signers));
+  if (signed < statement.threshold * totalWeight) {
+    return { valid: false, signedWeight: signed, totalWeight, reason: 'Below threshold' };
+  }
+  return { valid: true, signedWeight: signed, totalWeight };
+}
+
+export class AttestationManager {
+  private pending = new Map<string, AttestationCertificate>();   // Requested, not yet certified
+  private certificates = new Map<string, AttestationCertificate>();
+  private config: SwarmConfig;
+  private callbacks: AttestationCallbacks = {};
+
+  constructor(
+    private transport: Transport,
+    private arbitration: Arbitration,
+    private privateKey: string,
+    config: Partial<SwarmConfig> = {},
+    private quarantine?: QuarantineSystem
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Set callbacks
+   */
+  setCallbacks(callbacks: AttestationCallbacks): void {
+    this.callbacks = { ...this.callbacks, ...callbacks };
+  }
+
+  /**
+   * Start listening for attestation messages
+   */
+  start(): void {
+    this.transport.onMessage((m) => this.onWire(m));
+  }
+
+  /**
+   * Ask the voters of a resolved proposal to co-sign its outcome
+   */
+  async request(proposal: Proposal): Promise<AttestationStatement | null> {
+    if (!proposal.resolved || !proposal.winner || !proposal.counted?.length) return null;
+
+    const statement: AttestationStatement = {
+      v: ATTESTATION_VERSION,
+      proposal_id: proposal.id,
+      claim_hash: proposal.claimHash,
+      options: [...proposal.options],
+      winner: proposal.winner,
+      votes: [...proposal.counted].sort((a, b) => a.voter < b.voter ? -1 : a.voter > b.voter ? 1 : 0),
+      threshold: this.config.attestationThreshold,
+      issued_by: this.transport.id,
+      issued_at: nowMs(),
+    };
+
+    this.pending.set(proposal.id, { statement, signatures: [] });
+
+    // Co-sign our own vote before asking others
+    if (statement.votes.some(v => v.voter === this.transport.id)) {
+      await this.addSignature(proposal.id, this.transport.id, await this.sign(statement));
+    }
+
+    this.transport.broadcast({
+      type: 'ATTESTATION_REQ',
+      from: this.transport.id,
+      ts: nowMs(),
+      statement,
+    });
+
+    return statement;
+  }
+
+  /**
+   * Get the certificate for a proposal once it has reached threshold
+   */
+  getCertificate(proposalId: string): AttestationCertificate | undefined {
+    return this.certificates.get(proposalId);
+  }
+
+  /**
+   * Sign a statement with our key
+   */
+  private async sign(statement: AttestationStatement): Promise<string> {
+    return bytesToHex(await ed.signAsync(attestationHash(statement), hexToBytes(this.privateKey)));
+  }
+
+  /**
+   * Handle wire messages; a message that cannot be processed is dropped
+   */
+  private async onWire(m: WireMessage): Promise<void> {
+    try {
+      if (m.type === 'ATTESTATION_REQ') {
+        await this.handleRequest(m);
+      } else if (m.type === 'ATTESTATION_SIG') {
+        if (typeof m.proposalId !== 'string' || typeof m.signature !== 'string') return;
+        await this.addSignature(m.proposalId, m.from, m.signature);
+      }
+    } catch {
+      this.callbacks.onRejected?.('', m.from, 'Malformed attestation message');
+    }
+  }
+
+  /**
+   * Co-sign a statement if it records every vote as we saw it, under
+   * our options and a threshold no laxer than ours, and its winner
+   * follows from its votes
+   */
+  private async handleRequest(m: WireMessage & { type: 'ATTESTATION_REQ' }): Promise<void> {
+    const { statement } = m;
+    if (!isAttestationStatement(statement)) {
+      this.callbacks.onRejected?.('', m.from, 'Malformed statement');
+      return;
+    }
+
+    const proposal = this.arbitration.getProposal(statement.proposal_id);
+    if (!proposal?.votes.has(this.transport.id)) return;
+
+    const problem = this.misrecords(statement, proposal) ??
+      thresholdProblem(statement.threshold, this.config.attestationThreshold);
+    if (problem) {
+      this.callbacks.onRejected?.(statement.proposal_id, m.from, problem);
+      return;
+    }
+    if (statementWinner(statement) !== statement.winner) {
+      this.callbacks.onRejected?.(statement.proposal_id, m.from, 'Winner does not follow from votes');
+      return;
+    }
+
+    this.transport.send(m.from, {
+      type: 'ATTESTATION_SIG',
+      from: this.transport.id,
+      ts: nowMs(),
+      proposalId: statement.proposal_id,
+      signature: await this.sign(statement),
+    });
+  }
+
+  /**
+   * Compare a statement with the proposal as we saw it. Each recorded
+   * vote must match a vote we received, at no more than its cast weight
+   * after evidence weighting. Every vote we received before the statement
+   * was issued must be recorded, so a tallier cannot drop dissent; it
+   * may leave out quarantined voters, but not us.
+   */
+  private misrecords(statement: AttestationStatement, proposal: Proposal): string | undefined {
+    if (proposal.claimHash !== statement.claim_hash) return 'Statement names another claim';
+    if (canonicalJson(statement.options) !== canonicalJson(proposal.options)) {
+      return 'Statement misrecords the options';
+    }
+    if (!statement.votes.some(v => v.voter === this.transport.id)) return 'Statement misrecords our vote';
+
+    const seen = new Set<PeerId>();
+    for (const v of statement.votes) {
+      const cast = proposal.votes.get(v.voter);
+      if (!cast || seen.has(v.voter) || cast.option !== v.option) return `Statement misrecords vote: ${v.voter}`;
+      const cap = cast.weight * (cast.evidenceHash ? this.config.evidenceWeight : 1);
+      if (v.weight > cap) return `Statement overweights vote: ${v.voter}`;
+      seen.add(v.voter);
+    }
+
+    for (const [voter, cast] of proposal.votes) {
+      if (seen.has(voter) || cast.ts > statement.issued_at || this.quarantine?.isQuarantined(voter)) continue;
+      return `Statement omits vote: ${voter}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Collect a co-signature and certify once the threshold is met; later
+   * co-signatures still join the certificate
+   */
+  private async addSignature(proposalId: string, signer: PeerId, signature: string): Promise<void> {
+    const cert = this.pending.get(proposalId) ?? this.certificates.get(proposalId);
+    if (!cert) return;
+
+    const { statement } = cert;
+    if (!statement.votes.some(v => v.voter === signer)) {
+      this.callbacks.onRejected?.(proposalId, signer, 'Signer did not vote');
+      return;
+    }
+    if (!await verifyAttestationSignature(statement, signer, signature)) {
+      this.callbacks.onRejected?.(proposalId, signer, 'Invalid signature');
+      return;
+    }
+    if (cert.signatures.some(s => s.signer === signer)) return;
+
+    cert.signatures.push({ signer, signature });
+
+    const total = signedWeight(statement, statement.votes.map(v => v.voter));
+    const signed = signedWeight(statement, cert.signatures.map(s => s.signer));
+    if (signed >= statement.threshold * total && !this.certificates.has(proposalId)) {
+      this.pending.delete(proposalId);
+      this.certificates.set(proposalId, cert);
+      this.callbacks.onCertified?.(cert);
+    }
+  }
+
+  /**
+   * Drop requests that have not been certified within `maxAge`
+   */
+  prune(maxAge = 300_000, now = nowMs()): void {
+    for (const [id, cert] of this.pending) {
+      if (now - cert.statement.issued_at > maxAge) {
+        this.pending.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Count of requests awaiting co-signatures
+   */
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Export for audit
+   */
+  export(): AttestationCertificate[] {
+    return Array.from(this.certificates.values());
+  }
+}
@@ -3,7 +3,9 @@
  * =========
  * 
  * Hash-chained event log for full auditability.
- * Supports provenance queries and deterministic replay.
+ * Supports provenance queries and deterministic replay. Entries carry
+ * the node's HLC so logs from several nodes merge into one causally
+ * consistent timeline.
  */
 
 import { 
@@ -14,9 +16,13 @@ import {
   LearningSignal,
   DriftEvent,
   PatternBundle,
-  AuthorityWindow
-} from './types/index.js';
-import { hashJson, nowMs } from './util/hash.js';
+  AuthorityWindow,
+  KeyRotation,
+  KeyRevocation,
+  Hlc
+} from '../types/index.js';
+import { hashJson, canonicalJson, nowMs } from '../util/hash.js';
+import { HybridClock, compareHlc } from '../util/hlc.js';
 
 export interface ProvenanceChain {
   claimHash: string;
@@ -29,15 +35,37 @@ export interface ProvenanceChain {
   }>;
 }
 
+export interface TimelineEntry extends LogEntry {
+  node: PeerId;            // Node whose log the entry came from
+}
+
+/**
+ * Merge several nodes' logs into one timeline ordered by HLC, then node
+ * id, then log position. Entries without an HLC order by `ts`.
+ */
+export function mergeTimelines(logs: Array<{ node: PeerId; entries: LogEntry[] }>): TimelineEntry[] {
+  const stamp = (e: LogEntry): Hlc => e.hlc ?? { wall: e.ts, logical: 0 };
+  return logs
+    .flatMap(({ node, entries }) => entries.map(e => ({ ...e, node })))
+    .sort((a, b) =>
+      compareHlc(stamp(a), stamp(b)) ||
+      (a.node < b.node ? -1 : a.node > b.node ? 1 : 0) ||
+      a.i - b.i
+    );
+}
+
 export class AuditLog {
   private entries: LogEntry[] = [];
   private lastHash: string | null = null;
   private counter = 0;
 
+  constructor(private clock?: HybridClock) {}
+
   /**
-   * Append an entry to the log
+   * Append an entry to the log. An entry recording an event that
+   * already has a stamp, like sending a signal, may pass it as `hlc`.
    */
-  append(kind: LogKind, data: unknown, peerId?: PeerId): LogEntry {
+  append(kind: LogKind, data: unknown, peerId?: PeerId, hlc?: Hlc): LogEntry {
     const entry: LogEntry = {
       i: this.counter++,
       ts: nowMs(),
@@ -46,6 +74,7 @@ export class AuditLog {
       data,
       prev: this.lastHash,
       hash: '', // Will be computed
+      hlc: hlc ?? this.clock?.now(),
     };
 
     entry.hash = hashJson({
@@ -55,6 +84,7 @@ export class AuditLog {
       peerId: entry.peerId,
       data: entry.data,
       prev: entry.prev,
+      hlc: entry.hlc,
     });
 
     this.lastHash = entry.hash;
@@ -66,7 +96,7 @@ export class AuditLog {
   // Convenience methods for common log types
 
   logSignalSent(signal: LearningSignal, to?: PeerId): LogEntry {
-    return this.append(to ? 'OUT_SEND' : 'OUT_BROADCAST', { signal }, signal.source_id);
+    return this.append(to ? 'OUT_SEND' : 'OUT_BROADCAST', { signal }, signal.source_id, signal.hlc);
   }
 
   logSignalReceived(signal: LearningSignal, from: PeerId): LogEntry {
@@ -109,6 +139,31 @@ export class AuditLog {
     return this.append('ROLLBACK', { snapshotTs, reason });
   }
 
+  logKeyRotation(rotation: KeyRotation): LogEntry {
+    return this.append('KEY_ROTATION', {
+      rotationId: rotation.rotation_id,
+      oldKey: rotation.old_key,
+      newKey: rotation.new_key,
+      timestamp: rotation.timestamp,
+      reason: rotation.reason,
+    }, rotation.old_key);
+  }
+
+  logKeyRevocation(
+    revocation: KeyRevocation,
+    affected: { claims: string[]; conflicts: string[]; proposals: string[] }
+  ): LogEntry {
+    return this.append('KEY_REVOCATION', {
+      revocationId: revocation.revocation_id,
+      key: revocation.key,
+      revokedFrom: revocation.revoked_from,
+      revokedUntil: revocation.revoked_until,
+      issuedBy: revocation.issued_by,
+      reason: revocation.reason,
+      affected,
+    }, revocation.key);
+  }
+
   logAction(action: string, details: unknown, peerId?: PeerId): LogEntry {
     return this.append('ACTION', { action, details }, peerId);
   }
@@ -133,6 +188,7 @@ export class AuditLog {
         peerId: entry.peerId,
         data: entry.data,
         prev: entry.prev,
+        hlc: entry.hlc,
       });
 
       if (computed !== entry.hash) {
@@ -191,6 +247,40 @@ export class AuditLog {
     return this.entries.filter(e => e.peerId === peerId);
   }
 
+  /**
+   * Get every key linked to this one by recorded rotations, oldest first
+   */
+  keyLineage(key: PeerId): PeerId[] {
+    const successors = new Map<PeerId, PeerId>();
+    const predecessors = new Map<PeerId, PeerId>();
+    for (const entry of this.byKind('KEY_ROTATION')) {
+      const data = entry.data as { oldKey: PeerId; newKey: PeerId };
+      successors.set(data.oldKey, data.newKey);
+      predecessors.set(data.newKey, data.oldKey);
+    }
+
+    let first = key;
+    while (predecessors.has(first) && predecessors.get(first) !== key) {
+      first = predecessors.get(first)!;
+    }
+
+    const chain = [first];
+    let next = successors.get(first);
+    while (next && !chain.includes(next)) {
+      chain.push(next);
+      next = successors.get(next);
+    }
+    return chain;
+  }
+
+  /**
+   * Get entries for a peer under any of its rotated keys
+   */
+  forIdentity(key: PeerId): LogEntry[] {
+    const keys = new Set(this.keyLineage(key));
+    return this.entries.filter(e => e.peerId !== undefined && keys.has(e.peerId));
+  }
+
   /**
    * Get entries by kind
    */
@@ -234,10 +324,10 @@ export class AuditLog {
   }
 
   /**
-   * Export to JSONL format
+   * Export to JSONL format (one canonical JSON entry per line)
    */
   toJSONL(): string {
-    return this.entries.map(e => JSON.stringify(e)).join('\n');
+    return this.entries.map(e => canonicalJson(e)).join('\n');
   }
 
   /**
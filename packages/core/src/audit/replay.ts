@@ -12,9 +12,9 @@ import {
   LearningSignal,
   BeliefState,
   PeerId 
-} from './types/index.js';
-import { AuditLog } from './audit/log.js';
-import { BeliefStore } from './beliefs.js';
+} from '../types/index.js';
+import { AuditLog } from './log.js';
+import { BeliefStore } from '../beliefs.js';
 
 export interface ReplayState {
   tick: number;
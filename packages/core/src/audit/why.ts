@@ -7,8 +7,9 @@
  * Returns a minimal structured explanation suitable for logs, UI, or export.
  */
 
-import { BeliefState } from '../types/index.js';
+import { BeliefState, LearningSignal, PeerId } from '../types/index.js';
 import { BeliefStore } from '../beliefs.js';
+import { beliefKey } from '../domains.js';
 
 export interface WhyResult {
   claimHash: string;
@@ -17,13 +18,28 @@ export interface WhyResult {
   lineage: string[];
   sources: string[];
   updatedAt: number;
+  deprecated: boolean;
+  evidence: Array<{ hash: string; verified: boolean }>;
+  delivery: DeliveryHop[];
+  assertions: Array<{ sourceId: PeerId; stance: BeliefState['stance']; confidence: number; signalId: string; timestamp: number }>;
 }
 
-export function why(beliefs: BeliefStore, claimHash: string): WhyResult | null {
-  const b = beliefs.get(claimHash);
+/**
+ * One relay the deciding signal passed through on its way here. Signed
+ * hops carry the relay's own record of when and with what ttl it forwarded.
+ */
+export interface DeliveryHop {
+  relay: PeerId;
+  signed: boolean;
+  ttl?: number;
+  ts?: number;
+}
+
+export function why(beliefs: BeliefStore, claimHash: string, domain?: string): WhyResult | null {
+  const b = beliefs.get(claimHash, domain);
   if (!b) return null;
 
-  const history = beliefs.getHistory(claimHash);
+  const history = beliefs.getHistory(claimHash, domain);
   const sources = new Set<string>();
   if (history) {
     for (const e of history.entries) sources.add(e.sourceId);
@@ -36,5 +52,27 @@ export function why(beliefs: BeliefStore, claimHash: string): WhyResult | null {
     lineage: b.lineage ?? [],
     sources: Array.from(sources),
     updatedAt: b.updatedAt,
+    deprecated: b.deprecated ?? false,
+    evidence: beliefs.evidenceFor(claimHash, domain),
+    delivery: deliveryOf(b.lastSignalId ? beliefs.findSignal(b.lastSignalId, b.lastSourceId) : undefined),
+    assertions: beliefs.ledger.sources(beliefKey(claimHash, domain)).map(a => ({
+      sourceId: a.sourceId,
+      stance: a.stance,
+      confidence: a.confidence,
+      signalId: a.signalId,
+      timestamp: a.timestamp,
+    })),
   };
 }
+
+/**
+ * Delivery path of a signal, from its signed trail when it has one
+ */
+function deliveryOf(signal: LearningSignal | undefined): DeliveryHop[] {
+  if (!signal) return [];
+  const trail = signal.routing.trail;
+  if (trail && trail.length > 0) {
+    return trail.map(h => ({ relay: h.relay, signed: true, ttl: h.ttl, ts: h.ts }));
+  }
+  return signal.routing.path.map(relay => ({ relay, signed: false }));
+}
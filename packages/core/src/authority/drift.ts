@@ -10,6 +10,11 @@
  * - BELIEF_DIVERGENCE: Peer's beliefs diverge significantly from consensus
  * - CONFIDENCE_DECAY: Peer's confidence has dropped below threshold
  * - STALE_COMMS: Haven't heard from peer in too long
+ *
+ * Peer beliefs are read from the belief ledger when checked rather than
+ * copied here. Consensus arrives decayed, so each peer's belief is
+ * decayed from its signal's timestamp under the same domain policy
+ * before comparing.
  */
 
 import {
@@ -19,15 +24,31 @@ import {
   Stance,
   SwarmConfig,
   DEFAULT_CONFIG,
+  DEFAULT_DOMAIN,
 } from '../types/index.js';
+import { beliefKey, domainConfig } from '../domains.js';
+import { decayBelief } from '../decay.js';
+
+type DriftBeliefs = Map<string, { stance: Stance; confidence: number; domain?: string }>;
+
+export interface DriftAssertion {
+  claimHash: string;
+  domain?: string;
+  stance: Stance;
+  confidence: number;       // As signed
+  timestamp: number;        // Signed timestamp, which decay ages from
+}
+
+/** A peer's current assertions, e.g. `BeliefLedger.bySource` */
+export type DriftAssertions = (peerId: PeerId) => DriftAssertion[];
 
 export interface PeerDriftState {
   peerId: PeerId;
   holdStartTime: number | null;
   lastCommsTime: number;
   confidence: number;
-  beliefs: Map<string, { stance: Stance; confidence: number }>;
   driftScore: number;
+  driftDomain?: string;     // Domain whose divergence triggered drift
   triggered: boolean;
 }
 
@@ -35,9 +56,11 @@ export class DriftDetector {
   private peerStates = new Map<PeerId, PeerDriftState>();
   private config: SwarmConfig;
   private listeners: Array<(event: DriftEvent) => void> = [];
+  private assertions: DriftAssertions;
 
-  constructor(config: Partial<SwarmConfig> = {}) {
+  constructor(config: Partial<SwarmConfig> = {}, assertions: DriftAssertions = () => []) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.assertions = assertions;
   }
 
   /**
@@ -50,7 +73,6 @@ export class DriftDetector {
         holdStartTime: null,
         lastCommsTime: now,
         confidence: 1.0,
-        beliefs: new Map(),
         driftScore: 0,
         triggered: false,
       });
@@ -97,20 +119,10 @@ export class DriftDetector {
     }
   }
 
-  /**
-   * Update peer's belief for a claim
-   */
-  updateBelief(peerId: PeerId, claimHash: string, stance: Stance, confidence: number): void {
-    const state = this.peerStates.get(peerId);
-    if (state) {
-      state.beliefs.set(claimHash, { stance, confidence });
-    }
-  }
-
   /**
    * Check all peers for drift and return triggered events
    */
-  check(consensusBeliefs: Map<string, { stance: Stance; confidence: number }>, now = Date.now()): DriftEvent[] {
+  check(consensusBeliefs: DriftBeliefs, now = Date.now()): DriftEvent[] {
     const events: DriftEvent[] = [];
 
     for (const state of this.peerStates.values()) {
@@ -138,7 +150,7 @@ export class DriftDetector {
    */
   private checkPeer(
     state: PeerDriftState,
-    consensusBeliefs: Map<string, { stance: Stance; confidence: number }>,
+    consensusBeliefs: DriftBeliefs,
     now: number
   ): DriftReason | null {
     // Check hold time
@@ -160,47 +172,63 @@ export class DriftDetector {
       return DriftReason.CONFIDENCE_DECAY;
     }
 
-    // Check belief divergence
-    const divergenceScore = this.calculateDivergence(state.beliefs, consensusBeliefs);
-    state.driftScore = divergenceScore;
-    if (divergenceScore > this.config.beliefDivergenceThreshold) {
-      return DriftReason.BELIEF_DIVERGENCE;
+    // Check belief divergence, per domain against that domain's threshold
+    state.driftScore = 0;
+    for (const [domain, divergenceScore] of this.calculateDivergence(state.peerId, consensusBeliefs, now)) {
+      state.driftScore = Math.max(state.driftScore, divergenceScore);
+      if (divergenceScore > domainConfig(this.config, domain).beliefDivergenceThreshold) {
+        state.driftDomain = domain;
+        return DriftReason.BELIEF_DIVERGENCE;
+      }
     }
 
     return null;
   }
 
   /**
-   * Calculate divergence between peer beliefs and consensus
+   * Calculate divergence between decayed peer beliefs and consensus, per domain
    */
   private calculateDivergence(
-    peerBeliefs: Map<string, { stance: Stance; confidence: number }>,
-    consensusBeliefs: Map<string, { stance: Stance; confidence: number }>
-  ): number {
-    if (consensusBeliefs.size === 0) return 0;
-
-    let totalDivergence = 0;
-    let count = 0;
-
-    for (const [claimHash, consensus] of consensusBeliefs) {
-      const peerBelief = peerBeliefs.get(claimHash);
-      if (!peerBelief) continue;
-
-      count++;
+    peerId: PeerId,
+    consensusBeliefs: DriftBeliefs,
+    now: number
+  ): Map<string, number> {
+    const totals = new Map<string, { divergence: number; count: number }>();
+
+    for (const held of this.assertions(peerId)) {
+      const key = beliefKey(held.claimHash, held.domain);
+      const consensus = consensusBeliefs.get(key);
+      if (!consensus) continue;
+
+      const domain = held.domain ?? DEFAULT_DOMAIN;
+      const peerBelief = decayBelief(
+        { claimHash: key, stance: held.stance, confidence: held.confidence, updatedAt: held.timestamp },
+        domainConfig(this.config, domain),
+        now
+      );
+      if (peerBelief.expired) continue;
+
+      const total = totals.get(domain) ?? { divergence: 0, count: 0 };
+      total.count++;
       
       // Different stance = high divergence
       if (peerBelief.stance !== consensus.stance && 
           peerBelief.stance !== 'unknown' && 
           consensus.stance !== 'unknown') {
-        totalDivergence += 1.0;
+        total.divergence += 1.0;
       } else {
         // Same stance but different confidence
         const confDiff = Math.abs(peerBelief.confidence - consensus.confidence);
-        totalDivergence += confDiff;
+        total.divergence += confDiff;
       }
+      totals.set(domain, total);
     }
 
-    return count > 0 ? totalDivergence / count : 0;
+    const result = new Map<string, number>();
+    for (const [domain, total] of totals) {
+      result.set(domain, total.divergence / total.count);
+    }
+    return result;
   }
 
   /**
@@ -209,7 +237,7 @@ export class DriftDetector {
   private getDriftDetails(
     state: PeerDriftState,
     reason: DriftReason,
-    _consensusBeliefs: Map<string, { stance: Stance; confidence: number }>
+    _consensusBeliefs: DriftBeliefs
   ): Record<string, unknown> {
     switch (reason) {
       case DriftReason.HOLD_TOO_LONG:
@@ -230,7 +258,8 @@ export class DriftDetector {
       case DriftReason.BELIEF_DIVERGENCE:
         return {
           divergenceScore: state.driftScore,
-          threshold: this.config.beliefDivergenceThreshold,
+          domain: state.driftDomain ?? DEFAULT_DOMAIN,
+          threshold: domainConfig(this.config, state.driftDomain).beliefDivergenceThreshold,
         };
       default:
         return {};
@@ -245,9 +274,21 @@ export class DriftDetector {
     if (state) {
       state.triggered = false;
       state.driftScore = 0;
+      state.driftDomain = undefined;
     }
   }
 
+  /**
+   * Move drift state to a rotated key
+   */
+  migrate(oldId: PeerId, newId: PeerId): void {
+    const state = this.peerStates.get(oldId);
+    if (!state) return;
+
+    this.peerStates.delete(oldId);
+    this.peerStates.set(newId, { ...state, peerId: newId });
+  }
+
   /**
    * Remove tracking for a peer
    */
@@ -291,8 +332,7 @@ export class DriftDetector {
   export(): Array<PeerDriftState & { beliefCount: number }> {
     return Array.from(this.peerStates.values()).map(s => ({
       ...s,
-      beliefs: undefined as any,
-      beliefCount: s.beliefs.size,
+      beliefCount: this.assertions(s.peerId).length,
     }));
   }
 }
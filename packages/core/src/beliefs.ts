@@ -3,14 +3,32 @@
  * ============
  * 
  * Stores and manages beliefs with full lineage tracking for audit.
+ * Beliefs are namespaced by domain; see `beliefKey`. Stance and
+ * confidence come from the aggregation strategy, over each source's
+ * latest assertion in the ledger; see `aggregation.ts` and `ledger.ts`.
+ * Reads apply the domain's confidence decay; see `decay.ts`.
+ *
+ * Bounded by `maxClaims`: the least recently updated claim is evicted
+ * from the signal log, beliefs, history and the ledger together. A
+ * source the ledger evicts from a claim leaves its log as well, so
+ * beliefs never count what the ledger has dropped.
  */
 
 import { 
   BeliefState, 
   Stance, 
   LearningSignal,
-  PeerId 
+  SignalType,
+  PeerId,
+  Hlc,
+  SourceContribution,
+  DEFAULT_DOMAIN
 } from './types/index.js';
+import { beliefKey } from './domains.js';
+import { compareHlc } from './util/hlc.js';
+import { AggregationStrategy, lastWriterWins } from './aggregation.js';
+import { BeliefLedger, BeliefLedgerOptions } from './ledger.js';
+import { DecayPolicy, decayBelief } from './decay.js';
 
 export interface BeliefHistory {
   claimHash: string;
@@ -20,103 +38,459 @@ export interface BeliefHistory {
     confidence: number;
     signalId: string;
     sourceId: string;
+    signalType: SignalType;
+    evidenceHash?: string;
   }>;
 }
 
+export interface BeliefStoreOptions {
+  evidence?: { has(hash: string): boolean };   // Verified evidence lookup
+  evidenceWeight?: number;                     // Confidence multiplier for backed signals
+  aggregation?: AggregationStrategy;           // Defaults to last-writer-wins
+  influence?: (sourceId: PeerId, domain: string) => number;   // Defaults to 1 for every source
+  identity?: (sourceId: PeerId) => PeerId;                     // Current key of a key's rotation lineage
+  ledger?: BeliefLedgerOptions;
+  decay?: (domain: string) => DecayPolicy;     // Defaults to no decay
+  deprecationQuorum?: number;                  // Influence share that may retire another author's claim; default 0.5
+  maxClaims?: number;                          // Claims kept, least recently updated evicted first
+}
+
 export class BeliefStore {
   private beliefs = new Map<string, BeliefState>();
   private history = new Map<string, BeliefHistory>();
+  private signals = new Map<string, LearningSignal[]>();   // Accepted signals per claim, least recently updated claim first
+  private expiredKeys = new Set<string>();                 // Already reported by sweepExpired
+  private authors = new Map<string, { sourceId: PeerId; hlc: Hlc }>();   // Earliest asserting source per claim
+  readonly ledger: BeliefLedger;
+
+  constructor(private options: BeliefStoreOptions = {}) {
+    this.ledger = new BeliefLedger({ influence: options.influence, identity: options.identity, ...options.ledger });
+    this.ledger.onChange(({ key, sourceId, evicted }) => {
+      if (evicted) this.followEviction(key, sourceId);
+    });
+  }
+
+  /**
+   * Get belief for a claim, decayed to `now`
+   */
+  get(claimHash: string, domain?: string, now = Date.now()): BeliefState | undefined {
+    const belief = this.beliefs.get(beliefKey(claimHash, domain));
+    return belief && this.decayed(belief, now);
+  }
+
+  /**
+   * Get all beliefs, decayed to `now`
+   */
+  all(now = Date.now()): BeliefState[] {
+    return Array.from(this.beliefs.values(), b => this.decayed(b, now));
+  }
+
+  /**
+   * Beliefs that have expired since the last sweep. A newer signal
+   * revives a belief, and it is reported again when it next expires.
+   */
+  sweepExpired(now = Date.now()): BeliefState[] {
+    const out: BeliefState[] = [];
+    for (const [key, belief] of this.beliefs) {
+      if (belief.deprecated || this.expiredKeys.has(key)) continue;
+      const read = this.decayed(belief, now);
+      if (read.expired) {
+        this.expiredKeys.add(key);
+        out.push(read);
+      }
+    }
+    return out;
+  }
+
+  private decayed(belief: BeliefState, now: number): BeliefState {
+    const policy = this.options.decay?.(belief.domain ?? DEFAULT_DOMAIN);
+    return policy ? decayBelief(belief, policy, now) : belief;
+  }
 
   /**
-   * Get belief for a claim
+   * Get beliefs in one domain
    */
-  get(claimHash: string): BeliefState | undefined {
-    return this.beliefs.get(claimHash);
+  inDomain(domain: string): BeliefState[] {
+    return this.all().filter(b => (b.domain ?? DEFAULT_DOMAIN) === domain);
   }
 
   /**
-   * Get all beliefs
+   * Get beliefs that have not been deprecated
    */
-  all(): BeliefState[] {
-    return Array.from(this.beliefs.values());
+  active(): BeliefState[] {
+    return this.all().filter(b => !b.deprecated);
   }
 
   /**
-   * Apply a learning signal to update beliefs
+   * Apply a learning signal to update beliefs.
+   *
+   * - delta: later HLC wins; equal stamps fall to the greater source id,
+   *   so every node picks the same winner whatever the arrival order
+   * - correction: supersedes `prior_signal` when it has the same author,
+   *   and the belief is replayed without it
+   * - deprecation: withdraws its source's own assertion, and retires the
+   *   claim until a newer signal reinstates it if it comes from the
+   *   claim's author or its backers hold a quorum of the influence
+   *
+   * With evidence weighting, signals citing verified evidence count at
+   * boosted confidence, and a newer bare assertion only displaces a backed
+   * belief if it is at least as confident.
    */
   apply(signal: LearningSignal): BeliefState {
-    const claimHash = signal.payload.claim_hash;
-    const prev = this.beliefs.get(claimHash);
+    const key = beliefKey(signal.payload.claim_hash, signal.domain);
+    const log = this.signals.get(key) ?? [];
+    if (log.some(s => s.source_id === signal.source_id && s.signal_id === signal.signal_id)) {
+      return this.beliefs.get(key)!;
+    }
 
-    const next: BeliefState = {
-      claimHash,
-      stance: signal.payload.direction,
-      confidence: signal.payload.confidence,
-      updatedAt: signal.timestamp,
-      lastSignalId: signal.signal_id,
-      lastSourceId: signal.source_id,
-    };
+    this.noteAuthor(key, signal);
+    log.push(signal);
+    if (log.length > 100) log.shift();
+    this.signals.delete(key);
+    this.signals.set(key, log);
+    if (this.signals.size > (this.options.maxClaims ?? Infinity)) {
+      this.forget(this.signals.keys().next().value as string);
+    }
+    this.ledger.record(signal);
 
-    // Resolution: newer timestamp wins; if equal, higher confidence wins
-    if (!prev) {
-      this.beliefs.set(claimHash, next);
-      this.recordHistory(claimHash, next, signal);
-      return next;
+    return this.replay(key)!;
+  }
+
+  /**
+   * Drop a claim from every view, the ledger included
+   */
+  private forget(key: string): void {
+    this.signals.delete(key);
+    this.beliefs.delete(key);
+    this.history.delete(key);
+    this.authors.delete(key);
+    this.expiredKeys.delete(key);
+    this.ledger.forget(key);
+  }
+
+  /**
+   * Drop what the ledger evicted: a source's signals on a claim, or the
+   * claim itself once no source is left
+   */
+  private followEviction(key: string, sourceId: PeerId): void {
+    const log = this.signals.get(key);
+    if (!log) return;
+    if (this.ledger.sources(key).length === 0) {
+      this.forget(key);
+      return;
     }
 
-    if (signal.timestamp > prev.updatedAt) {
-      this.beliefs.set(claimHash, next);
-      this.recordHistory(claimHash, next, signal);
-      return next;
+    const remaining = log.filter(s => this.ledger.identityOf(s.source_id) !== sourceId);
+    this.signals.set(key, remaining);
+    if (this.ledger.identityOf(this.authors.get(key)?.sourceId ?? '') === sourceId) {
+      this.authors.delete(key);
+      for (const s of remaining) this.noteAuthor(key, s);
     }
+    this.replay(key);
+  }
 
-    if (signal.timestamp === prev.updatedAt && signal.payload.confidence >= prev.confidence) {
-      this.beliefs.set(claimHash, next);
-      this.recordHistory(claimHash, next, signal);
-      return next;
+  /**
+   * Find an applied signal by id. Ids are only unique per source, so
+   * pass the source when it is known.
+   */
+  findSignal(signalId: string, sourceId?: PeerId): LearningSignal | undefined {
+    for (const log of this.signals.values()) {
+      const found = log.find(s => s.signal_id === signalId && (sourceId === undefined || s.source_id === sourceId));
+      if (found) return found;
     }
+    return undefined;
+  }
 
-    return prev;
+  /**
+   * Source of the earliest assertion on a claim
+   */
+  authorOf(claimHash: string, domain?: string): PeerId | undefined {
+    return this.authors.get(beliefKey(claimHash, domain))?.sourceId;
   }
 
   /**
-   * Record history for lineage tracking
+   * Make a signal's source the claim's author if it asserted earliest
    */
-  private recordHistory(claimHash: string, belief: BeliefState, signal: LearningSignal): void {
-    let history = this.history.get(claimHash);
-    if (!history) {
-      history = { claimHash, entries: [] };
-      this.history.set(claimHash, history);
+  private noteAuthor(key: string, signal: LearningSignal): void {
+    if (signal.signal_type === 'deprecation') return;
+    const author = this.authors.get(key);
+    if (!author || compareHlc(hlcOf(signal), author.hlc) < 0) {
+      this.authors.set(key, { sourceId: signal.source_id, hlc: hlcOf(signal) });
     }
+  }
 
-    history.entries.push({
-      timestamp: belief.updatedAt,
-      stance: belief.stance,
-      confidence: belief.confidence,
-      signalId: signal.signal_id,
-      sourceId: signal.source_id,
-    });
+  /**
+   * Signals superseded by a same-author correction on the same claim.
+   * Maps superseded signal id to the correcting signal id.
+   */
+  private supersessions(log: LearningSignal[]): Map<string, string> {
+    const byId = new Map(log.map(s => [signalKey(s.source_id, s.signal_id), s]));
+    const superseded = new Map<string, string>();
+
+    for (const s of log) {
+      if (s.signal_type !== 'correction' || !s.prior_signal) continue;
+      const prior = byId.get(signalKey(s.source_id, s.prior_signal));
+      if (prior) {
+        superseded.set(signalKey(prior.source_id, prior.signal_id), s.signal_id);
+      }
+    }
+
+    return superseded;
+  }
 
-    // Keep bounded history
-    if (history.entries.length > 100) {
-      history.entries = history.entries.slice(-100);
+  /**
+   * Which deprecations may retire a claim: the author's, or any once the
+   * sources whose latest word is a deprecation hold more than the quorum
+   * share of the influence of everyone with a say on the claim
+   */
+  private retirement(key: string, log: LearningSignal[]): (signal: LearningSignal) => boolean {
+    const identity = (sourceId: PeerId) => this.ledger.identityOf(sourceId);
+    const latest = new Map<PeerId, LearningSignal>();
+    for (const s of log) {
+      const prev = latest.get(identity(s.source_id));
+      if (!prev || compareHlc(hlcOf(s), hlcOf(prev)) > 0) latest.set(identity(s.source_id), s);
+    }
+
+    const weight = (sourceId: PeerId, domain: string) => this.options.influence?.(sourceId, domain) ?? 1;
+    let backing = 0;
+    let total = 0;
+    for (const [sourceId, s] of latest) {
+      const w = weight(sourceId, s.domain);
+      total += w;
+      if (s.signal_type === 'deprecation') backing += w;
     }
+    for (const a of this.ledger.sources(key)) {
+      if (!latest.has(a.sourceId)) total += weight(a.sourceId, a.domain);
+    }
+
+    const quorum = total > 0 && backing / total > (this.options.deprecationQuorum ?? 0.5);
+    const author = this.authors.get(key)?.sourceId;
+    return (signal) => quorum || (author !== undefined && identity(signal.source_id) === identity(author));
+  }
+
+  /**
+   * Rebuild a claim's belief and history from its signal log
+   */
+  private replay(key: string): BeliefState | undefined {
+    const log = this.signals.get(key) ?? [];
+    const claimHash = log[0]?.payload.claim_hash ?? key;
+    const superseded = this.supersessions(log);
+    const mayRetire = this.retirement(key, log);
+    const history: BeliefHistory = { claimHash, entries: [] };
+    let belief: BeliefState | undefined;
+
+    for (const signal of log) {
+      if (superseded.has(signalKey(signal.source_id, signal.signal_id))) continue;
+      if (signal.signal_type === 'deprecation' && !mayRetire(signal)) continue;
+
+      const evidence = this.verifiedEvidence(signal);
+      const confidence = this.weigh(signal.payload.confidence, evidence);
+      const wins = !belief ||
+        (this.follows(signal, belief) &&
+          (evidence !== undefined || !belief.evidenceHash || confidence >= belief.confidence));
+      if (!wins) continue;
+
+      // A deprecation retires the claim but keeps the last known stance
+      const deprecating = signal.signal_type === 'deprecation' && belief !== undefined;
+      belief = {
+        claimHash,
+        stance: deprecating ? belief!.stance : signal.payload.direction,
+        confidence: deprecating ? belief!.confidence : confidence,
+        updatedAt: signal.timestamp,
+        hlc: hlcOf(signal),
+        lastSignalId: signal.signal_id,
+        lastSourceId: signal.source_id,
+        domain: signal.domain,
+        lineage: this.lineageOf(signal, log),
+        evidenceHash: deprecating ? belief!.evidenceHash : evidence,
+        deprecated: signal.signal_type === 'deprecation' || undefined,
+      };
+
+      history.entries.push({
+        timestamp: belief.updatedAt,
+        stance: belief.stance,
+        confidence: belief.confidence,
+        signalId: signal.signal_id,
+        sourceId: signal.source_id,
+        signalType: signal.signal_type,
+        evidenceHash: signal.payload.evidence_hash,
+      });
+    }
+
+    this.expiredKeys.delete(key);
+    if (!belief) {
+      this.beliefs.delete(key);
+      this.history.delete(key);
+      if (log.length === 0) {
+        this.signals.delete(key);
+        this.authors.delete(key);
+      }
+      return undefined;
+    }
+
+    const contributions = this.contributionsOf(key);
+    const aggregation = this.options.aggregation ?? lastWriterWins;
+    belief = { ...belief, ...aggregation.aggregate(contributions, belief), contributions };
+
+    this.beliefs.set(key, belief);
+    this.history.set(key, history);
+    return belief;
+  }
+
+  /**
+   * Each source's ledger assertion on a claim, weighted by its current
+   * influence
+   */
+  private contributionsOf(key: string): SourceContribution[] {
+    return this.ledger.sources(key).map(a => ({
+      sourceId: a.sourceId,
+      signalId: a.signalId,
+      stance: a.stance,
+      confidence: this.weigh(a.confidence, this.verifiedEvidence(a.signal)),
+      weight: this.options.influence?.(a.sourceId, a.domain) ?? 1,
+      hlc: a.hlc,
+      timestamp: a.timestamp,
+    }));
+  }
+
+  /**
+   * Check if a signal orders after the signal that set a belief
+   */
+  private follows(signal: LearningSignal, belief: BeliefState): boolean {
+    const order = compareHlc(hlcOf(signal), belief.hlc ?? { wall: belief.updatedAt, logical: 0 });
+    return order > 0 || (order === 0 && signal.source_id > (belief.lastSourceId ?? ''));
+  }
+
+  /**
+   * Evidence hash of a signal, if evidence weighting is on and the
+   * evidence has been retrieved and verified
+   */
+  private verifiedEvidence(signal: LearningSignal): string | undefined {
+    const hash = signal.payload.evidence_hash;
+    if (!hash || !this.options.evidence || (this.options.evidenceWeight ?? 1) <= 1) return undefined;
+    return this.options.evidence.has(hash) ? hash : undefined;
+  }
+
+  /**
+   * Effective confidence of a signal
+   */
+  private weigh(confidence: number, evidence: string | undefined): number {
+    if (evidence === undefined) return confidence;
+    return Math.min(1, confidence * (this.options.evidenceWeight ?? 1));
+  }
+
+  /**
+   * Replay claims citing evidence that has just been verified.
+   * Returns the claims replayed.
+   */
+  reweigh(evidenceHash: string): Array<{ claimHash: string; domain: string }> {
+    const claims: Array<{ claimHash: string; domain: string }> = [];
+    for (const [key, log] of this.signals) {
+      if (log.some(s => s.payload.evidence_hash === evidenceHash)) {
+        this.replay(key);
+        claims.push({ claimHash: log[0].payload.claim_hash, domain: log[0].domain });
+      }
+    }
+    return claims;
+  }
+
+  /**
+   * Evidence cited in a claim's history, and whether each is verified
+   */
+  evidenceFor(claimHash: string, domain?: string): Array<{ hash: string; verified: boolean }> {
+    const hashes = new Set<string>();
+    for (const e of this.history.get(beliefKey(claimHash, domain))?.entries ?? []) {
+      if (e.evidenceHash) hashes.add(e.evidenceHash);
+    }
+    return Array.from(hashes, hash => ({
+      hash,
+      verified: this.options.evidence?.has(hash) ?? false,
+    }));
+  }
+
+  /**
+   * Chain of signals a correction replaced, oldest first, ending with itself
+   */
+  private lineageOf(signal: LearningSignal, log: LearningSignal[]): string[] | undefined {
+    if (signal.signal_type !== 'correction') return undefined;
+
+    const byId = new Map(log.map(s => [signalKey(s.source_id, s.signal_id), s]));
+    const chain = [signal.signal_id];
+    let current = signal;
+    while (current.signal_type === 'correction' && current.prior_signal) {
+      const prior = byId.get(signalKey(current.source_id, current.prior_signal));
+      if (!prior || chain.includes(prior.signal_id)) break;
+      chain.unshift(prior.signal_id);
+      current = prior;
+    }
+    return chain;
+  }
+
+  /**
+   * Remove everything a source asserted in [from, until) and replay
+   * each affected belief from the remaining signals.
+   * Returns the claims, with their domains, whose history changed.
+   */
+  revoke(sourceId: PeerId, from: number, until?: number): Array<{ claimHash: string; domain: string }> {
+    const affected: Array<{ claimHash: string; domain: string }> = [];
+    const revoked = (s: LearningSignal) =>
+      s.source_id === sourceId && s.timestamp >= from && (until === undefined || s.timestamp < until);
+
+    for (const [key, log] of this.signals) {
+      const remaining = log.filter(s => !revoked(s));
+      if (remaining.length === log.length) continue;
+
+      this.signals.set(key, remaining);
+      affected.push({ claimHash: log[0].payload.claim_hash, domain: log[0].domain });
+
+      // Fall back to the identity's latest assertion outside the revoked span
+      const identity = this.ledger.identityOf(sourceId);
+      this.ledger.remove(key, sourceId);
+      for (const s of remaining) {
+        if (this.ledger.identityOf(s.source_id) === identity) this.ledger.record(s);
+      }
+
+      // Authorship passes to the earliest assertion left standing
+      if (this.authors.get(key)?.sourceId === sourceId) {
+        this.authors.delete(key);
+        for (const s of remaining) this.noteAuthor(key, s);
+      }
+      this.replay(key);
+    }
+
+    return affected;
+  }
+
+  /**
+   * Keep a rotated key's assertions under its successor, so the lineage
+   * counts once. Returns the claims replayed.
+   */
+  migrate(oldId: PeerId, newId: PeerId): Array<{ claimHash: string; domain: string }> {
+    const claims: Array<{ claimHash: string; domain: string }> = [];
+    for (const key of this.ledger.migrate(oldId, newId)) {
+      const belief = this.replay(key);
+      if (belief) claims.push({ claimHash: belief.claimHash, domain: belief.domain ?? DEFAULT_DOMAIN });
+    }
+    return claims;
   }
 
   /**
    * Get history for a claim
    */
-  getHistory(claimHash: string): BeliefHistory | undefined {
-    return this.history.get(claimHash);
+  getHistory(claimHash: string, domain?: string): BeliefHistory | undefined {
+    return this.history.get(beliefKey(claimHash, domain));
   }
 
   /**
-   * Get consensus beliefs (for drift detection)
+   * Get consensus beliefs by belief key (for drift detection), decayed
+   * to `now`; deprecated and expired claims excluded
    */
-  getConsensus(): Map<string, { stance: Stance; confidence: number }> {
-    const result = new Map<string, { stance: Stance; confidence: number }>();
-    for (const [hash, belief] of this.beliefs) {
-      result.set(hash, { stance: belief.stance, confidence: belief.confidence });
+  getConsensus(now = Date.now()): Map<string, { stance: Stance; confidence: number; domain?: string }> {
+    const result = new Map<string, { stance: Stance; confidence: number; domain?: string }>();
+    for (const [key, stored] of this.beliefs) {
+      const belief = this.decayed(stored, now);
+      if (belief.deprecated || belief.expired) continue;
+      result.set(key, { stance: belief.stance, confidence: belief.confidence, domain: belief.domain });
     }
     return result;
   }
@@ -155,7 +529,26 @@ export class BeliefStore {
   clear(): void {
     this.beliefs.clear();
     this.history.clear();
+    this.signals.clear();
+    this.expiredKeys.clear();
+    this.authors.clear();
+    this.ledger.clear();
   }
 }
 
 export { BeliefState, Stance };
+
+/**
+ * Identity of a signal; authors pick their own ids, so they are only
+ * unique per source. Source ids are hex keys and never contain a space.
+ */
+function signalKey(sourceId: PeerId, signalId: string): string {
+  return `${sourceId} ${signalId}`;
+}
+
+/**
+ * Causal stamp of a signal; unstamped signals order by timestamp
+ */
+export function hlcOf(signal: LearningSignal): Hlc {
+  return signal.hlc ?? { wall: signal.timestamp, logical: 0 };
+}
@@ -3,7 +3,9 @@
  * ===========
  * 
  * Semantic checkpoints for verifying belief alignment across peers.
- * Used to detect divergence before it compounds.
+ * Used to detect divergence before it compounds. With a claims registry,
+ * peers also report what they take the claim to mean; a stance held
+ * under a different meaning is not counted toward conflict.
  */
 
 import { 
@@ -14,6 +16,7 @@ import {
 } from './types/index.js';
 import { BeliefStore } from './beliefs.js';
 import { ConflictAccumulator } from './conflict.js';
+import { ClaimRegistry } from './claims.js';
 import { nowMs } from './util/hash.js';
 
 export interface CheckpointResponse {
@@ -22,6 +25,8 @@ export interface CheckpointResponse {
   stance: Stance;
   confidence: number;
   ts: number;
+  meaning: string;
+  meaningMatches?: boolean;   // Unset unless both sides define the claim
 }
 
 export class Checkpoints {
@@ -36,7 +41,8 @@ export class Checkpoints {
   constructor(
     private transport: Transport,
     private beliefs: BeliefStore,
-    private conflicts: ConflictAccumulator
+    private conflicts: ConflictAccumulator,
+    private claims?: ClaimRegistry
   ) {}
 
   /**
@@ -103,7 +109,7 @@ export class Checkpoints {
       from: this.transport.id,
       ts: nowMs(),
       claimHash: m.claimHash,
-      meaning: '',
+      meaning: this.claims?.meaningOf(m.claimHash) ?? '',
       stance,
       confidence,
     });
@@ -116,25 +122,33 @@ export class Checkpoints {
     // Find matching pending request
     for (const [requestId, pending] of this.pending) {
       if (pending.claimHash === m.claimHash) {
+        const ours = this.claims?.meaningOf(m.claimHash) ?? '';
         const response: CheckpointResponse = {
           peerId: m.from,
           claimHash: m.claimHash,
           stance: m.stance as Stance,
           confidence: m.confidence,
           ts: m.ts,
+          meaning: m.meaning,
+          meaningMatches: ours && m.meaning ? ours === m.meaning : undefined,
         };
 
         pending.responses.push(response);
 
+        // Learn the meaning from a peer that has it
+        if (!ours && m.meaning) void this.claims?.fetch(m.claimHash, m.from);
+
         // Update conflict accumulator
-        this.conflicts.observeBelief(
-          m.from,
-          m.claimHash,
-          m.stance as Stance,
-          m.confidence,
-          m.ts,
-          m.meaning
-        );
+        if (response.meaningMatches !== false) {
+          this.conflicts.observeBelief(
+            m.from,
+            m.claimHash,
+            m.stance as Stance,
+            m.confidence,
+            m.ts,
+            m.meaning || undefined
+          );
+        }
 
         // Call callback if set
         const callback = this.responseCallbacks.get(requestId);
@@ -0,0 +1,324 @@
+/**
+ * Claims Registry
+ * ===============
+ *
+ * Content-addressed definitions for the claim hashes signals carry: what
+ * a claim asserts, the shape of its subject, its domain, and how it
+ * relates to other claims. A definition is only kept once it hashes
+ * back to its address.
+ *
+ * Definitions spread by flooding: a node that stores a new one passes
+ * it on to its peers. A node meeting an unknown claim address can also
+ * fetch its definition from a peer.
+ *
+ * Bounded by policy: at most `maxClaimDefinitions` definitions, the least
+ * recently used one no local belief refers to evicted first, and
+ * definitions and requests from each peer rate-limited, so no peer can
+ * fill the registry for good or keep it busy answering.
+ */
+
+import {
+  Transport,
+  WireMessage,
+  PeerId,
+  ClaimDefinition,
+  ClaimLink,
+  ClaimRelation,
+  ClaimRelationKind,
+  SwarmConfig,
+  DEFAULT_CONFIG
+} from './types/index.js';
+import { canonicalJson, hashJson, nowMs } from './util/hash.js';
+import { LruCache } from './util/lru.js';
+import { ReputationSystem } from './security/reputation.js';
+import { RateLimiter } from './security/ratelimit.js';
+
+export interface ClaimCallbacks {
+  onDefined?: (hash: string, definition: ClaimDefinition, from?: PeerId) => void;
+  onRejected?: (hash: string, from: PeerId, reason: string) => void;
+}
+
+/**
+ * Content address of a claim definition
+ */
+export function claimHash(definition: ClaimDefinition): string {
+  return hashJson(definition);
+}
+
+/**
+ * Check if a claim hash could be a content address, and so worth fetching
+ */
+export function isClaimAddress(hash: string): boolean {
+  return /^[0-9a-f]{64}$/.test(hash);
+}
+
+const RELATION_KINDS: ReadonlySet<ClaimRelationKind> = new Set(['implies', 'contradicts', 'refines']);
+
+/**
+ * Check a relation has a known kind and names a content address
+ */
+export function isClaimRelation(r: unknown): r is ClaimRelation {
+  const relation = r as Partial<ClaimRelation> | null;
+  return typeof relation === 'object' && relation !== null &&
+    RELATION_KINDS.has(relation.kind as ClaimRelationKind) &&
+    typeof relation.target === 'string' && isClaimAddress(relation.target);
+}
+
+export class ClaimRegistry {
+  private definitions: LruCache<string, ClaimDefinition>;
+  private incoming = new Map<string, ClaimLink[]>();   // Relations declared by other claims, by target
+  private waiting = new Map<string, Array<(definition: ClaimDefinition | null) => void>>();
+  private config: SwarmConfig;
+  private callbacks: ClaimCallbacks = {};
+  private limits: RateLimiter;
+  private requestLimits: RateLimiter;
+
+  constructor(
+    private transport: Transport,
+    config: Partial<SwarmConfig> = {},
+    private reputation?: ReputationSystem,
+    private inUse: (hash: string, domain: string) => boolean = () => false
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.definitions = new LruCache(this.config.maxClaimDefinitions);
+    this.limits = new RateLimiter(this.config.claimRatePerSec, this.config.rateBurstSeconds);
+    this.requestLimits = new RateLimiter(this.config.claimRatePerSec, this.config.rateBurstSeconds);
+  }
+
+  /**
+   * Set callbacks
+   */
+  setCallbacks(callbacks: ClaimCallbacks): void {
+    this.callbacks = { ...this.callbacks, ...callbacks };
+  }
+
+  /**
+   * Start answering requests and receiving definitions
+   */
+  start(): void {
+    this.transport.onMessage((m) => this.onWire(m));
+  }
+
+  /**
+   * Register a claim, announce it to peers and return its hash.
+   * Defining a claim already held only returns its hash.
+   */
+  define(definition: ClaimDefinition): string {
+    const reason = this.problemWith(definition);
+    if (reason) throw new Error(reason);
+
+    const hash = claimHash(definition);
+    if (this.definitions.get(hash)) return hash;
+    if (this.store(hash, definition)) {
+      this.callbacks.onDefined?.(hash, definition);
+      this.announce(hash, definition);
+    }
+    return hash;
+  }
+
+  /**
+   * Get a claim's definition
+   */
+  get(hash: string): ClaimDefinition | undefined {
+    return this.definitions.get(hash);
+  }
+
+  /**
+   * Check if a claim is defined locally
+   */
+  has(hash: string): boolean {
+    return this.definitions.has(hash);
+  }
+
+  /**
+   * What a claim asserts, or '' if it is not defined here
+   */
+  meaningOf(hash: string): string {
+    return this.definitions.get(hash)?.text ?? '';
+  }
+
+  /**
+   * Relations touching a claim, declared by it or by claims naming it
+   */
+  relationsOf(hash: string): ClaimLink[] {
+    const outgoing = (this.definitions.peek(hash)?.relations ?? [])
+      .map(r => ({ from: hash, kind: r.kind, to: r.target }));
+    return [...outgoing, ...(this.incoming.get(hash) ?? [])];
+  }
+
+  /**
+   * Fetch a claim's definition from a peer, or from any peer when none
+   * is given. Resolves null if no verified copy arrives in time.
+   */
+  fetch(hash: string, peer?: PeerId): Promise<ClaimDefinition | null> {
+    const held = this.definitions.get(hash);
+    if (held) return Promise.resolve(held);
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => settle(null), this.config.claimTimeoutMs);
+      const settle = (definition: ClaimDefinition | null) => {
+        clearTimeout(timer);
+        const waiters = this.waiting.get(hash)?.filter(w => w !== settle) ?? [];
+        if (waiters.length > 0) {
+          this.waiting.set(hash, waiters);
+        } else {
+          this.waiting.delete(hash);
+        }
+        resolve(definition);
+      };
+
+      const first = !this.waiting.has(hash);
+      this.waiting.set(hash, [...(this.waiting.get(hash) ?? []), settle]);
+      if (!first) return;
+
+      const req: WireMessage = { type: 'CLAIM_REQ', from: this.transport.id, ts: nowMs(), hash };
+      if (peer) {
+        this.transport.send(peer, req);
+      } else {
+        this.transport.broadcast(req);
+      }
+    });
+  }
+
+  /**
+   * Handle wire messages
+   */
+  private onWire(m: WireMessage): void {
+    if (m.type === 'CLAIM_REQ') {
+      this.handleRequest(m);
+    } else if (m.type === 'CLAIM_DEFINITION') {
+      this.handleDefinition(m);
+    }
+  }
+
+  /**
+   * Answer a request for a definition we hold
+   */
+  private handleRequest(m: WireMessage & { type: 'CLAIM_REQ' }): void {
+    if (!this.withinRate(this.requestLimits, m.from, m.hash, 'Claim request rate exceeded')) return;
+
+    const definition = this.definitions.peek(m.hash);
+    if (!definition) return;
+
+    this.transport.send(m.from, {
+      type: 'CLAIM_DEFINITION',
+      from: this.transport.id,
+      ts: nowMs(),
+      hash: m.hash,
+      definition,
+    });
+  }
+
+  /**
+   * Keep a definition that hashes to its address, and pass it on if new
+   */
+  private handleDefinition(m: WireMessage & { type: 'CLAIM_DEFINITION' }): void {
+    if (this.definitions.has(m.hash)) return;
+    if (!this.withinRate(this.limits, m.from, m.hash, 'Claim definition rate exceeded')) return;
+
+    const reason = this.problemWith(m.definition) ??
+      (claimHash(m.definition) !== m.hash ? 'Claim hash mismatch' : undefined);
+    if (reason) {
+      this.callbacks.onRejected?.(m.hash, m.from, reason);
+      return;
+    }
+
+    if (!this.store(m.hash, m.definition)) return;
+    this.callbacks.onDefined?.(m.hash, m.definition, m.from);
+    this.announce(m.hash, m.definition);
+
+    for (const settle of [...(this.waiting.get(m.hash) ?? [])]) {
+      settle(m.definition);
+    }
+  }
+
+  /**
+   * Why a definition cannot be accepted, if it cannot
+   */
+  private problemWith(definition: ClaimDefinition): string | undefined {
+    if (typeof definition?.text !== 'string' || typeof definition.domain !== 'string') {
+      return 'Malformed claim definition';
+    }
+    const { relations } = definition;
+    if (relations !== undefined && (!Array.isArray(relations) || !relations.every(isClaimRelation))) {
+      return 'Malformed claim relations';
+    }
+    if (canonicalJson(definition).length > this.config.maxClaimBytes) {
+      return `Claim definition exceeds ${this.config.maxClaimBytes} bytes`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Admit a peer's definition or request under its rate, scaled by
+   * influence. Only the first drop of an overrun is reported.
+   */
+  private withinRate(limits: RateLimiter, peer: PeerId, hash: string, reason: string): boolean {
+    const influence = this.reputation?.getInfluence(peer) ?? this.config.newPeerInfluence;
+    const { allowed, penalize } = limits.take(peer, influence / this.config.newPeerInfluence);
+    if (!allowed && penalize) this.callbacks.onRejected?.(hash, peer, reason);
+    return allowed;
+  }
+
+  /**
+   * Store a definition and index its relations; false when full of
+   * definitions that local beliefs still refer to
+   */
+  private store(hash: string, definition: ClaimDefinition): boolean {
+    if (this.definitions.size >= this.config.maxClaimDefinitions && !this.evictUnused()) return false;
+
+    this.definitions.set(hash, definition);
+    for (const r of definition.relations ?? []) {
+      const links = this.incoming.get(r.target) ?? [];
+      links.push({ from: hash, kind: r.kind, to: r.target });
+      this.incoming.set(r.target, links);
+    }
+    return true;
+  }
+
+  /**
+   * Evict the least recently used definition no local belief refers to
+   */
+  private evictUnused(): boolean {
+    for (const hash of this.definitions.keys()) {
+      const definition = this.definitions.peek(hash)!;
+      if (this.inUse(hash, definition.domain)) continue;
+
+      this.definitions.delete(hash);
+      for (const r of definition.relations ?? []) {
+        const links = (this.incoming.get(r.target) ?? []).filter(l => l.from !== hash);
+        if (links.length > 0) {
+          this.incoming.set(r.target, links);
+        } else {
+          this.incoming.delete(r.target);
+        }
+      }
+      return true;
+    }
+    return false;
+  }
+
+  private announce(hash: string, definition: ClaimDefinition): void {
+    this.transport.broadcast({
+      type: 'CLAIM_DEFINITION',
+      from: this.transport.id,
+      ts: nowMs(),
+      hash,
+      definition,
+    });
+  }
+
+  /**
+   * Get count of defined claims
+   */
+  get size(): number {
+    return this.definitions.size;
+  }
+
+  /**
+   * Export for audit
+   */
+  export(): Array<{ hash: string; definition: ClaimDefinition }> {
+    return this.definitions.keys().map(hash => ({ hash, definition: this.definitions.peek(hash)! }));
+  }
+}
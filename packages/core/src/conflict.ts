@@ -4,27 +4,66 @@
  * 
  * Detects semantic conflicts when peers disagree on beliefs.
  * Uses entropy-based scoring to identify sustained disagreement.
+ * Under a domain's confidence decay, older observations weigh less and
+ * expired ones are not counted.
+ *
+ * With claim relations, disagreement is also scored across claims: peers
+ * holding a claim true against peers holding a related claim in a stance
+ * the relation rules out. Inconsistencies in the local belief set itself
+ * are a third kind of conflict; see `consistency.ts`.
+ *
+ * Peers' current assertions are read from the belief ledger, not copied
+ * here; only observations the ledger doesn't hold, such as checkpoint
+ * responses, are kept locally. Each source's newer observation wins.
  */
 
 import { 
   PeerId, 
   Stance, 
   ConflictRecord,
+  ClaimContradiction,
+  ClaimLink,
+  ConsistencyViolation,
   SwarmConfig,
   DEFAULT_CONFIG 
 } from './types/index.js';
+import { beliefKey, domainConfig } from './domains.js';
+import { decayFactor, isExpired } from './decay.js';
 
 export interface ConflictCallbacks {
   onConflictDetected?: (record: ConflictRecord) => void;
   onConflictResolved?: (claimHash: string) => void;
+  onContradiction?: (contradiction: ClaimContradiction) => void;
+  onInconsistency?: (violation: ConsistencyViolation) => void;
+  onInconsistencyResolved?: (violation: ConsistencyViolation) => void;
 }
 
+export interface ConflictAssertion {
+  sourceId: PeerId;
+  stance: Stance;
+  confidence: number;
+  timestamp: number;
+}
+
+/** Current assertions on a claim, e.g. from `BeliefLedger.sources` */
+export type ConflictAssertions = (claimHash: string, domain?: string) => ConflictAssertion[];
+
+type Observations = Map<PeerId, { stance: Stance; confidence: number; ts: number }>;
+
 export class ConflictAccumulator {
   private records = new Map<string, ConflictRecord>();
+  private local = new Map<string, Observations>();   // Observations the ledger doesn't hold, by belief key
+  private floors = new Map<string, number>();        // Ledger assertions at or before this are ignored, by belief key
+  private contradictions = new Map<string, ClaimContradiction>();
+  private violations = new Map<string, ConsistencyViolation>();
   private config: SwarmConfig;
   private callbacks: ConflictCallbacks = {};
 
-  constructor(config: Partial<SwarmConfig> = {}) {
+  constructor(
+    config: Partial<SwarmConfig> = {},
+    private relationsOf?: (claimHash: string) => ClaimLink[],
+    private assertions: ConflictAssertions = () => []
+  ) {
     this.config = { ...DEFAULT_CONFIG, ...config };
   }
 
@@ -36,7 +75,7 @@ export class ConflictAccumulator {
   }
 
   /**
-   * Record a belief observation from a peer
+   * Record a belief observation from a peer that the ledger doesn't hold
    */
   observeBelief(
     peerId: PeerId,
@@ -44,10 +83,24 @@ export class ConflictAccumulator {
     stance: Stance,
     confidence: number,
     ts: number,
-    meaning?: string
+    meaning?: string,
+    domain?: string
   ): ConflictRecord {
-    let rec = this.records.get(claimHash);
-    
+    const key = beliefKey(claimHash, domain);
+    const local = this.local.get(key) ?? new Map();
+    local.set(peerId, { stance, confidence, ts });
+    this.local.set(key, local);
+    return this.observeClaim(claimHash, domain, meaning)!;
+  }
+
+  /**
+   * Rescore a claim after its assertions changed in the ledger. The
+   * record is created once anyone holds a stance on the claim.
+   */
+  observeClaim(claimHash: string, domain?: string, meaning?: string): ConflictRecord | undefined {
+    const key = beliefKey(claimHash, domain);
+    let rec = this.records.get(key);
+
     if (!rec) {
       rec = {
         claimHash,
@@ -55,25 +108,20 @@ export class ConflictAccumulator {
         counts: {},
         stances: new Map(),
         conflictScore: 0,
+        domain,
       };
-      this.records.set(claimHash, rec);
+      if (this.observations(rec).size === 0) return undefined;
+      this.records.set(key, rec);
     }
 
     rec.meaning = rec.meaning ?? meaning;
-    rec.stances.set(peerId, { stance, confidence, ts });
-
-    // Rebuild counts
-    rec.counts = {};
-    for (const s of rec.stances.values()) {
-      rec.counts[s.stance] = (rec.counts[s.stance] ?? 0) + 1;
-    }
 
     const oldScore = rec.conflictScore;
-    rec.conflictScore = this.computeScore(rec);
+    this.rescore(rec);
 
     // Check if conflict threshold crossed
-    if (oldScore < this.config.beliefDivergenceThreshold && 
-        rec.conflictScore >= this.config.beliefDivergenceThreshold) {
+    const threshold = this.thresholdFor(rec);
+    if (oldScore < threshold && rec.conflictScore >= threshold) {
       this.callbacks.onConflictDetected?.(rec);
     }
 
@@ -81,25 +129,98 @@ export class ConflictAccumulator {
   }
 
   /**
-   * Compute conflict score using entropy
+   * Drop one peer's local observation of a claim
+   */
+  forget(peerId: PeerId, claimHash: string, domain?: string): void {
+    const key = beliefKey(claimHash, domain);
+    const rec = this.records.get(key);
+    if (this.local.get(key)?.delete(peerId) && rec) this.rescore(rec);
+  }
+
+  /**
+   * Ledger assertions past the record's floor merged with local
+   * observations, the newer winning per source
+   */
+  private observations(rec: ConflictRecord): Observations {
+    const key = beliefKey(rec.claimHash, rec.domain);
+    const floor = this.floors.get(key) ?? -Infinity;
+    const merged: Observations = new Map();
+    for (const a of this.assertions(rec.claimHash, rec.domain)) {
+      if (a.timestamp > floor) merged.set(a.sourceId, { stance: a.stance, confidence: a.confidence, ts: a.timestamp });
+    }
+    for (const [peerId, obs] of this.local.get(key) ?? []) {
+      if ((merged.get(peerId)?.ts ?? -Infinity) < obs.ts) merged.set(peerId, obs);
+    }
+    return merged;
+  }
+
+  /**
+   * Rescore every decaying record as its observations age
+   */
+  refresh(now = Date.now()): void {
+    for (const rec of this.records.values()) {
+      if (domainConfig(this.config, rec.domain).beliefDecay !== 'none') this.rescore(rec, now);
+    }
+  }
+
+  /**
+   * Rescore a claim's relations, e.g. once its definition arrives
+   */
+  recheck(claimHash: string, domain?: string, now = Date.now()): void {
+    const rec = this.records.get(beliefKey(claimHash, domain));
+    if (rec) this.checkRelations(rec, now);
+  }
+
+  /**
+   * Rebuild stances, stance counts and the conflict score
+   */
+  private rescore(rec: ConflictRecord, now = Date.now()): void {
+    rec.stances = this.observations(rec);
+    rec.counts = {};
+    for (const s of rec.stances.values()) {
+      rec.counts[s.stance] = (rec.counts[s.stance] ?? 0) + 1;
+    }
+    rec.conflictScore = this.computeScore(rec, now);
+    this.checkRelations(rec, now);
+  }
+
+  /**
+   * Decay-weighted stance totals over unexpired observations
    */
-  private computeScore(rec: ConflictRecord): number {
-    const total = rec.stances.size;
-    if (total <= 1) return 0;
+  private weigh(rec: ConflictRecord, now: number): { weights: Partial<Record<Stance, number>>; live: number; total: number } {
+    const policy = domainConfig(this.config, rec.domain);
+    const weights: Partial<Record<Stance, number>> = {};
+    let live = 0;
+    let total = 0;
+    for (const s of rec.stances.values()) {
+      const age = now - s.ts;
+      if (isExpired(s.confidence, age, policy)) continue;
+      const w = decayFactor(age, policy);
+      weights[s.stance] = (weights[s.stance] ?? 0) + w;
+      total += w;
+      live++;
+    }
+    return { weights, live, total };
+  }
+
+  /**
+   * Compute conflict score using entropy over decay-weighted stances
+   */
+  private computeScore(rec: ConflictRecord, now: number): number {
+    const { weights, live, total } = this.weigh(rec, now);
+    if (live <= 1) return 0;
 
     const uniqueStances = new Set(
-      Array.from(rec.stances.values())
-        .map(x => x.stance)
-        .filter(s => s !== 'unknown')
+      (Object.keys(weights) as Stance[]).filter(s => s !== 'unknown')
     );
 
     if (uniqueStances.size <= 1) return 0;
 
     // Normalized entropy on stance distribution
     let entropy = 0;
-    for (const [stance, count] of Object.entries(rec.counts)) {
+    for (const [stance, weight] of Object.entries(weights)) {
       if (stance === 'unknown') continue;
-      const p = count / total;
+      const p = weight / total;
       entropy += -p * Math.log2(p);
     }
 
@@ -107,11 +228,99 @@ export class ConflictAccumulator {
     return Math.min(1, entropy / maxEntropy);
   }
 
+  /**
+   * Score each relation touching a record against the related claim's
+   * record. Claims that contradict cannot both hold; a claim that implies
+   * or refines another cannot hold while the other is weakened.
+   */
+  private checkRelations(rec: ConflictRecord, now: number): void {
+    for (const link of this.relationsOf?.(rec.claimHash) ?? []) {
+      const from = this.records.get(beliefKey(link.from, rec.domain));
+      const to = this.records.get(beliefKey(link.to, rec.domain));
+      if (!from || !to) continue;
+
+      const holds = this.weigh(from, now).weights.strengthen ?? 0;
+      const rules = this.weigh(to, now).weights[link.kind === 'contradicts' ? 'strengthen' : 'weaken'] ?? 0;
+      let score = 0;
+      if (holds > 0 && rules > 0) {
+        const p = holds / (holds + rules);
+        score = -p * Math.log2(p) - (1 - p) * Math.log2(1 - p);
+      }
+
+      const key = `${beliefKey(link.from, rec.domain)} ${link.kind} ${link.to}`;
+      const oldScore = this.contradictions.get(key)?.score ?? 0;
+      const contradiction: ClaimContradiction = {
+        claimHash: link.from,
+        relatedHash: link.to,
+        kind: link.kind,
+        score,
+        domain: rec.domain,
+      };
+      this.contradictions.set(key, contradiction);
+
+      const threshold = this.thresholdFor(rec);
+      if (oldScore < threshold && score >= threshold) {
+        this.callbacks.onContradiction?.(contradiction);
+      }
+    }
+  }
+
+  /**
+   * Contradictions across related claims, at or above a threshold
+   * (by default each domain's threshold)
+   */
+  contradicting(threshold?: number): ClaimContradiction[] {
+    return Array.from(this.contradictions.values())
+      .filter(c => c.score >= (threshold ?? domainConfig(this.config, c.domain).beliefDivergenceThreshold))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Replace the current consistency violations with a fresh check's.
+   * New violations and ones no longer present are reported.
+   */
+  observeInconsistencies(violations: ConsistencyViolation[]): void {
+    const seen = new Set<string>();
+    for (const v of violations) {
+      seen.add(v.id);
+      if (this.violations.has(v.id)) continue;
+      this.violations.set(v.id, v);
+      this.callbacks.onInconsistency?.(v);
+    }
+
+    for (const [id, v] of this.violations) {
+      if (seen.has(id)) continue;
+      this.violations.delete(id);
+      this.callbacks.onInconsistencyResolved?.(v);
+    }
+  }
+
+  /**
+   * Get a consistency violation by id
+   */
+  getInconsistency(id: string): ConsistencyViolation | undefined {
+    return this.violations.get(id);
+  }
+
+  /**
+   * Current consistency violations, oldest first
+   */
+  inconsistencies(): ConsistencyViolation[] {
+    return Array.from(this.violations.values());
+  }
+
+  /**
+   * Divergence threshold for a record's domain
+   */
+  private thresholdFor(rec: ConflictRecord): number {
+    return domainConfig(this.config, rec.domain).beliefDivergenceThreshold;
+  }
+
   /**
    * Get conflict record for a claim
    */
-  get(claimHash: string): ConflictRecord | undefined {
-    return this.records.get(claimHash);
+  get(claimHash: string, domain?: string): ConflictRecord | undefined {
+    return this.records.get(beliefKey(claimHash, domain));
   }
 
   /**
@@ -123,46 +332,92 @@ export class ConflictAccumulator {
   }
 
   /**
-   * Get active conflicts (above threshold)
+   * Get active conflicts (above threshold, by default each record's
+   * domain threshold)
    */
   active(threshold?: number): ConflictRecord[] {
-    const t = threshold ?? this.config.beliefDivergenceThreshold;
-    return this.all().filter(c => c.conflictScore >= t);
+    return this.all().filter(c => c.conflictScore >= (threshold ?? this.thresholdFor(c)));
   }
 
   /**
    * Mark a conflict as resolved
    */
-  resolve(claimHash: string): void {
-    const rec = this.records.get(claimHash);
+  resolve(claimHash: string, domain?: string, now = Date.now()): void {
+    const key = beliefKey(claimHash, domain);
+    const rec = this.records.get(key);
     if (rec) {
       rec.conflictScore = 0;
       rec.stances.clear();
       rec.counts = {};
+      this.local.delete(key);
+      this.floors.set(key, now);
       this.callbacks.onConflictResolved?.(claimHash);
     }
   }
 
   /**
-   * Remove old observations for a claim
+   * Retire a deprecated claim from conflict tracking
    */
-  prune(claimHash: string, maxAge: number, now = Date.now()): void {
-    const rec = this.records.get(claimHash);
+  retire(claimHash: string, domain?: string): void {
+    const key = beliefKey(claimHash, domain);
+    const rec = this.records.get(key);
     if (!rec) return;
 
-    for (const [peerId, obs] of rec.stances) {
-      if (now - obs.ts > maxAge) {
-        rec.stances.delete(peerId);
+    this.records.delete(key);
+    this.local.delete(key);
+    this.floors.delete(key);
+    for (const [k, c] of this.contradictions) {
+      if (beliefKey(c.claimHash, c.domain) === key || beliefKey(c.relatedHash, c.domain) === key) {
+        this.contradictions.delete(k);
       }
     }
+    if (rec.conflictScore >= this.thresholdFor(rec)) {
+      this.callbacks.onConflictResolved?.(claimHash);
+    }
+  }
 
-    // Rebuild counts
-    rec.counts = {};
-    for (const s of rec.stances.values()) {
-      rec.counts[s.stance] = (rec.counts[s.stance] ?? 0) + 1;
+  /**
+   * Drop a peer's local observations made in [from, until) and flag the
+   * affected records for re-review. Returns the flagged claims. Call it
+   * before the ledger drops the peer's assertions, so records they
+   * touched are flagged too.
+   */
+  flagForReview(peerId: PeerId, from: number, until?: number): string[] {
+    const flagged: string[] = [];
+
+    for (const [key, rec] of this.records) {
+      const obs = rec.stances.get(peerId);
+      if (!obs || obs.ts < from || (until !== undefined && obs.ts >= until)) continue;
+
+      const local = this.local.get(key)?.get(peerId);
+      if (local && local.ts >= from && (until === undefined || local.ts < until)) {
+        this.local.get(key)!.delete(peerId);
+      }
+      this.rescore(rec);
+      rec.needsReview = true;
+      flagged.push(rec.claimHash);
+    }
+
+    return flagged;
+  }
+
+  /**
+   * Remove old observations for a claim; older ledger assertions are
+   * ignored from then on
+   */
+  prune(claimHash: string, maxAge: number, now = Date.now(), domain?: string): void {
+    const key = beliefKey(claimHash, domain);
+    const rec = this.records.get(key);
+    if (!rec) return;
+
+    for (const [peerId, obs] of this.local.get(key) ?? []) {
+      if (now - obs.ts > maxAge) {
+        this.local.get(key)!.delete(peerId);
+      }
     }
+    this.floors.set(key, Math.max(this.floors.get(key) ?? -Infinity, now - maxAge - 1));
 
-    rec.conflictScore = this.computeScore(rec);
+    this.rescore(rec);
   }
 
   /**
@@ -177,6 +432,10 @@ export class ConflictAccumulator {
    */
   clear(): void {
     this.records.clear();
+    this.local.clear();
+    this.floors.clear();
+    this.contradictions.clear();
+    this.violations.clear();
   }
 
   /**
@@ -188,6 +447,8 @@ export class ConflictAccumulator {
     conflictScore: number;
     stanceCount: number;
     counts: Record<string, number>;
+    needsReview?: boolean;
+    domain?: string;
   }> {
     return this.all().map(r => ({
       claimHash: r.claimHash,
@@ -195,6 +456,8 @@ export class ConflictAccumulator {
       conflictScore: r.conflictScore,
       stanceCount: r.stances.size,
       counts: r.counts,
+      needsReview: r.needsReview,
+      domain: r.domain,
     }));
   }
 }
@@ -0,0 +1,92 @@
+/**
+ * Consistency Checking
+ * ====================
+ *
+ * Checks the local belief set against declared claim relations. A claim
+ * held true (`strengthen`) must not:
+ *
+ * - imply or refine, directly or through a chain, a claim that is
+ *   weakened or retracted
+ * - contradict, itself or through what it implies, a claim also held true
+ *
+ * Each violation carries a minimal inconsistent subset: the shortest
+ * chain of relations from the held claim to the clash. Chains stop at
+ * claims that are themselves held, because the check from that claim
+ * finds a smaller subset.
+ */
+
+import { BeliefState, ClaimLink, ConsistencyViolation, DEFAULT_DOMAIN } from './types/index.js';
+import { beliefKey } from './domains.js';
+
+interface Chain {
+  claims: string[];
+  links: ClaimLink[];
+}
+
+/**
+ * Find every violation in a belief set. Deprecated and expired beliefs
+ * hold no stance.
+ */
+export function checkConsistency(
+  beliefs: BeliefState[],
+  relationsOf: (claimHash: string) => ClaimLink[],
+  now = Date.now()
+): ConsistencyViolation[] {
+  const current = new Map<string, BeliefState>();
+  for (const b of beliefs) {
+    if (!b.deprecated && !b.expired) current.set(beliefKey(b.claimHash, b.domain), b);
+  }
+
+  const found = new Map<string, ConsistencyViolation>();
+  for (const belief of current.values()) {
+    if (belief.stance !== 'strengthen') continue;
+
+    const domain = belief.domain ?? DEFAULT_DOMAIN;
+    const stanceOf = (hash: string) => current.get(beliefKey(hash, domain))?.stance;
+    const chains = new Map<string, Chain>([[belief.claimHash, { claims: [belief.claimHash], links: [] }]]);
+    const queue = [belief.claimHash];
+
+    // Breadth-first, so the first chain to each claim is the shortest
+    while (queue.length > 0) {
+      const at = queue.shift()!;
+      const chain = chains.get(at)!;
+
+      for (const link of relationsOf(at)) {
+        const implication = link.kind !== 'contradicts';
+        if (implication && link.from !== at) continue;
+
+        const next = link.from === at ? link.to : link.from;
+        const stance = stanceOf(next);
+        const extended = { claims: [...chain.claims, next], links: [...chain.links, link] };
+
+        if (implication ? stance === 'weaken' || stance === 'retract' : stance === 'strengthen') {
+          const v = violation(extended, domain, now);
+          if (!found.has(v.id)) found.set(v.id, v);
+        } else if (implication && stance !== 'strengthen' && !chains.has(next)) {
+          chains.set(next, extended);
+          queue.push(next);
+        }
+      }
+    }
+  }
+
+  return Array.from(found.values());
+}
+
+/**
+ * A violation keyed by its relations, so a contradiction found from
+ * either end is reported once
+ */
+function violation(chain: Chain, domain: string, now: number): ConsistencyViolation {
+  const id = chain.links
+    .map(l => `${l.from} ${l.kind} ${l.to}`)
+    .sort()
+    .join(' & ');
+  return {
+    id: domain === DEFAULT_DOMAIN ? id : `${domain}/${id}`,
+    claims: chain.claims,
+    links: chain.links,
+    domain,
+    detectedAt: now,
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Confidence Decay
+ * ================
+ *
+ * Beliefs age from `updatedAt`, the timestamp of their winning signal,
+ * and each source's contribution from its own signal's timestamp. The
+ * stored belief keeps its signed confidence; the decayed value is
+ * computed on read, per domain policy.
+ *
+ * - none: confidence never decays (default)
+ * - half-life: confidence halves every `beliefHalfLifeMs`
+ * - step: full confidence until `beliefMaxAgeMs`, then nothing
+ *
+ * A decaying belief whose confidence falls below `beliefExpiryConfidence`
+ * has expired and reads as `unknown`.
+ */
+
+import { BeliefState, SwarmConfig } from './types/index.js';
+
+export type DecayPolicy = Pick<SwarmConfig,
+  'beliefDecay' | 'beliefHalfLifeMs' | 'beliefMaxAgeMs' | 'beliefExpiryConfidence'
+>;
+
+/**
+ * Fraction of its confidence a belief keeps at an age
+ */
+export function decayFactor(ageMs: number, policy: DecayPolicy): number {
+  const age = Math.max(0, ageMs);
+  switch (policy.beliefDecay) {
+    case 'half-life': return Math.pow(0.5, age / policy.beliefHalfLifeMs);
+    case 'step': return age < policy.beliefMaxAgeMs ? 1 : 0;
+    default: return 1;
+  }
+}
+
+/**
+ * Check if a confidence has decayed past expiry at an age
+ */
+export function isExpired(confidence: number, ageMs: number, policy: DecayPolicy): boolean {
+  if (policy.beliefDecay === 'none') return false;
+  return confidence * decayFactor(ageMs, policy) < policy.beliefExpiryConfidence;
+}
+
+/**
+ * A belief as read at `now`: decayed confidence, or `unknown` once expired
+ */
+export function decayBelief(belief: BeliefState, policy: DecayPolicy, now = Date.now()): BeliefState {
+  if (policy.beliefDecay === 'none') return belief;
+
+  const contributions = belief.contributions?.map(c =>
+    ({ ...c, confidence: c.confidence * decayFactor(now - c.timestamp, policy) })
+  );
+  const age = now - belief.updatedAt;
+  if (isExpired(belief.confidence, age, policy)) {
+    return { ...belief, stance: 'unknown', confidence: 0, expired: true, contributions };
+  }
+  return { ...belief, confidence: belief.confidence * decayFactor(age, policy), contributions };
+}
@@ -0,0 +1,52 @@
+/**
+ * Domains
+ * =======
+ * 
+ * A signal's `domain` partitions beliefs, reputation and policy. The
+ * same claim hash in two domains names two different beliefs. Each
+ * domain may override a few config values; the rest fall back to the
+ * node-wide config.
+ */
+
+import {
+  SwarmConfig,
+  DEFAULT_DOMAIN
+} from './types/index.js';
+
+/** Separates domain from claim in a belief key; never part of a domain name */
+export const DOMAIN_SEPARATOR = '/';
+
+/**
+ * Check that a domain name can prefix a belief key unambiguously
+ */
+export function isDomainName(domain: unknown): domain is string {
+  return typeof domain === 'string' && domain.length > 0 && !domain.includes(DOMAIN_SEPARATOR);
+}
+
+/**
+ * Storage key for a claim within a domain. Default-domain keys are the
+ * bare claim hash, so single-domain callers never see namespacing, unless
+ * the hash itself contains the separator; the prefix then keeps every
+ * key splitting back into exactly one (domain, claim) pair.
+ */
+export function beliefKey(claimHash: string, domain: string = DEFAULT_DOMAIN): string {
+  if (!isDomainName(domain)) throw new TypeError(`Invalid domain name: ${domain}`);
+  return domain === DEFAULT_DOMAIN && !claimHash.includes(DOMAIN_SEPARATOR)
+    ? claimHash
+    : `${domain}${DOMAIN_SEPARATOR}${claimHash}`;
+}
+
+/**
+ * Effective config for a domain: node config with the domain's policy applied
+ */
+export function domainConfig(config: SwarmConfig, domain: string = DEFAULT_DOMAIN): SwarmConfig {
+  const policy = config.domainPolicies[domain];
+  return policy ? { ...config, ...policy } : config;
+}
+
+/**
+ * Check if a node accepts signals for a domain
+ */
+export function isSubscribed(config: SwarmConfig, domain: string): boolean {
+  return config.subscribedDomains === null || config.subscribedDomains.includes(domain);
+}
@@ -0,0 +1,204 @@
+/**
+ * Evidence
+ * ========
+ * 
+ * Content-addressed store for the artifacts signals cite in
+ * `payload.evidence_hash`. Evidence is fetched from peers by hash and
+ * only kept once its bytes hash back to the requested address. The
+ * store keeps the `evidenceStoreSize` most recently used artifacts.
+ */
+
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import {
+  Transport,
+  WireMessage,
+  PeerId,
+  SwarmConfig,
+  DEFAULT_CONFIG
+} from './types/index.js';
+import { nowMs } from './util/hash.js';
+import { LruCache } from './util/lru.js';
+
+export interface EvidenceCallbacks {
+  onStored?: (hash: string, from: PeerId) => void;
+  onRejected?: (hash: string, from: PeerId, reason: string) => void;
+}
+
+/**
+ * Content address of an evidence artifact
+ */
+export function evidenceHash(data: Uint8Array | string): string {
+  return bytesToHex(sha256(typeof data === 'string' ? utf8ToBytes(data) : data));
+}
+
+/**
+ * Check that evidence bytes match their address
+ */
+export function verifyEvidence(hash: string, data: Uint8Array): boolean {
+  return evidenceHash(data) === hash;
+}
+
+export class EvidenceStore {
+  private items: LruCache<string, Uint8Array>;
+  private waiting = new Map<string, Array<(data: Uint8Array | null) => void>>();
+  private config: SwarmConfig;
+  private callbacks: EvidenceCallbacks = {};
+
+  constructor(
+    private transport: Transport,
+    config: Partial<SwarmConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.items = new LruCache(this.config.evidenceStoreSize);
+  }
+
+  /**
+   * Set callbacks
+   */
+  setCallbacks(callbacks: EvidenceCallbacks): void {
+    this.callbacks = { ...this.callbacks, ...callbacks };
+  }
+
+  /**
+   * Start answering and receiving evidence requests
+   */
+  start(): void {
+    this.transport.onMessage((m) => this.onWire(m));
+  }
+
+  /**
+   * Store a local artifact and return its address
+   */
+  put(data: Uint8Array | string): string {
+    const bytes = typeof data === 'string' ? utf8ToBytes(data) : data;
+    if (bytes.length > this.config.maxEvidenceBytes) {
+      throw new Error(`Evidence exceeds ${this.config.maxEvidenceBytes} bytes`);
+    }
+
+    const hash = evidenceHash(bytes);
+    this.items.set(hash, bytes);
+    return hash;
+  }
+
+  /**
+   * Get verified evidence bytes
+   */
+  get(hash: string): Uint8Array | undefined {
+    return this.items.get(hash);
+  }
+
+  /**
+   * Check if evidence is held locally (and therefore verified)
+   */
+  has(hash: string): boolean {
+    return this.items.has(hash);
+  }
+
+  /**
+   * Fetch evidence by hash from a peer, or from any peer when none is
+   * given. Resolves null if no verified copy arrives in time.
+   */
+  fetch(hash: string, peer?: PeerId): Promise<Uint8Array | null> {
+    const held = this.items.get(hash);
+    if (held) return Promise.resolve(held);
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => settle(null), this.config.evidenceTimeoutMs);
+      const settle = (data: Uint8Array | null) => {
+        clearTimeout(timer);
+        const waiters = this.waiting.get(hash)?.filter(w => w !== settle) ?? [];
+        if (waiters.length > 0) {
+          this.waiting.set(hash, waiters);
+        } else {
+          this.waiting.delete(hash);
+        }
+        resolve(data);
+      };
+
+      const first = !this.waiting.has(hash);
+      this.waiting.set(hash, [...(this.waiting.get(hash) ?? []), settle]);
+      if (!first) return;
+
+      const req: WireMessage = { type: 'EVIDENCE_REQ', from: this.transport.id, ts: nowMs(), hash };
+      if (peer) {
+        this.transport.send(peer, req);
+      } else {
+        this.transport.broadcast(req);
+      }
+    });
+  }
+
+  /**
+   * Handle wire messages
+   */
+  private onWire(m: WireMessage): void {
+    if (m.type === 'EVIDENCE_REQ') {
+      this.handleRequest(m);
+    } else if (m.type === 'EVIDENCE_RESP') {
+      this.handleResponse(m);
+    }
+  }
+
+  /**
+   * Answer a request for evidence we hold
+   */
+  private handleRequest(m: WireMessage & { type: 'EVIDENCE_REQ' }): void {
+    const data = this.items.peek(m.hash);
+    if (!data) return;
+
+    this.transport.send(m.from, {
+      type: 'EVIDENCE_RESP',
+      from: this.transport.id,
+      ts: nowMs(),
+      hash: m.hash,
+      data: bytesToHex(data),
+    });
+  }
+
+  /**
+   * Accept a response only if we asked for it and it hashes correctly
+   */
+  private handleResponse(m: WireMessage & { type: 'EVIDENCE_RESP' }): void {
+    if (!this.waiting.has(m.hash) || this.items.has(m.hash)) return;
+
+    let data: Uint8Array;
+    try {
+      data = hexToBytes(m.data);
+    } catch {
+      this.callbacks.onRejected?.(m.hash, m.from, 'Malformed evidence');
+      return;
+    }
+
+    if (data.length > this.config.maxEvidenceBytes) {
+      this.callbacks.onRejected?.(m.hash, m.from, 'Evidence too large');
+      return;
+    }
+
+    if (!verifyEvidence(m.hash, data)) {
+      this.callbacks.onRejected?.(m.hash, m.from, 'Evidence hash mismatch');
+      return;
+    }
+
+    this.items.set(m.hash, data);
+    this.callbacks.onStored?.(m.hash, m.from);
+
+    for (const settle of [...(this.waiting.get(m.hash) ?? [])]) {
+      settle(data);
+    }
+  }
+
+  /**
+   * Get count of stored artifacts
+   */
+  get size(): number {
+    return this.items.size;
+  }
+
+  /**
+   * Export for audit
+   */
+  export(): Array<{ hash: string; size: number }> {
+    return this.items.keys().map(hash => ({ hash, size: this.items.peek(hash)!.length }));
+  }
+}
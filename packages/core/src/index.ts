@@ -3,6 +3,9 @@ export * from './types/index.js';
 
 // Utilities
 export * from './util/hash.js';
+export * from './util/lru.js';
+export * from './util/dedupe.js';
+export * from './util/hlc.js';
 
 // Authority
 export * from './authority/index.js';
@@ -15,14 +18,23 @@ export * from './audit/index.js';
 
 // Core modules
 export * from './signal.js';
+export * from './domains.js';
 export * from './beliefs.js';
+export * from './aggregation.js';
+export * from './ledger.js';
+export * from './decay.js';
 export * from './membership.js';
 export * from './propagation.js';
+export * from './sync.js';
 export * from './conflict.js';
+export * from './consistency.js';
 export * from './checkpoint.js';
 export * from './rollback.js';
 export * from './arbitration.js';
 export * from './patterns.js';
+export * from './evidence.js';
+export * from './claims.js';
+export * from './attestation.js';
 
 // Transports
 export * from './transports/index.js';
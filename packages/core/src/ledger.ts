@@ -0,0 +1,250 @@
+/**
+ * Belief Ledger
+ * =============
+ *
+ * Each source's latest signed assertion per claim: what peer X currently
+ * asserts about claim Y. A source's newer signal (by HLC) replaces its
+ * older one; an older copy arriving late changes nothing. A source is an
+ * identity, not a key: every key in a rotation lineage shares one row,
+ * under the key currently in use. Deprecations
+ * retire a claim but assert no stance, so they are not recorded.
+ *
+ * Belief aggregation, drift and conflict tracking and `why()` all read
+ * from here, so they agree on who asserted what. Listeners hear every
+ * change, including removals on revocation and eviction.
+ *
+ * Bounded by policy: at most `maxSources` sources per claim, the least
+ * influential evicted first (the stalest among equals), so a flood of
+ * unknown sources cannot displace a trusted one, and at most `maxClaims` claims, the least
+ * recently updated evicted first.
+ */
+
+import { LearningSignal, PeerId, Stance, Hlc } from './types/index.js';
+import { beliefKey } from './domains.js';
+import { compareHlc } from './util/hlc.js';
+
+export interface Assertion {
+  claimHash: string;
+  domain: string;
+  sourceId: PeerId;        // Current key of the signing identity
+  signalId: string;
+  stance: Stance;
+  confidence: number;      // As signed, before evidence weighting
+  timestamp: number;
+  hlc: Hlc;
+  evidenceHash?: string;
+  signal: LearningSignal;  // The signed signal, for re-verification
+}
+
+export interface BeliefLedgerOptions {
+  maxSources?: number;     // Sources kept per claim
+  maxClaims?: number;      // Claims kept
+  influence?: (sourceId: PeerId, domain: string) => number;   // Eviction priority; defaults to 1 for every source
+  identity?: (sourceId: PeerId) => PeerId;   // Current key of a key's lineage; defaults to the key itself
+}
+
+export interface LedgerChange {
+  key: string;             // Belief key of the claim
+  sourceId: PeerId;
+  before?: Assertion;      // Absent when the source is new to the claim
+  after?: Assertion;       // Absent when the assertion was removed
+  evicted?: boolean;       // Removed to stay within bounds
+}
+
+export type LedgerListener = (change: LedgerChange) => void;
+
+export class BeliefLedger {
+  private claims = new Map<string, Map<PeerId, Assertion>>();   // Least recently updated first
+  private listeners: LedgerListener[] = [];
+  private maxSources: number;
+  private maxClaims: number;
+  private influence: (sourceId: PeerId, domain: string) => number;
+  private identity: (sourceId: PeerId) => PeerId;
+
+  constructor(options: BeliefLedgerOptions = {}) {
+    this.maxSources = options.maxSources ?? Infinity;
+    this.maxClaims = options.maxClaims ?? Infinity;
+    this.influence = options.influence ?? (() => 1);
+    this.identity = options.identity ?? (sourceId => sourceId);
+  }
+
+  /**
+   * Record a signal if it is its source's latest on the claim. A
+   * deprecation withdraws the source's own assertion and records nothing.
+   * Returns the new assertion, or undefined if nothing was recorded.
+   */
+  record(signal: LearningSignal): Assertion | undefined {
+    return this.recordAs(this.identity(signal.source_id), signal);
+  }
+
+  /**
+   * Move a rotated key's assertions to its successor, keeping the newer
+   * of the two where both asserted. Returns the belief keys affected.
+   */
+  migrate(oldId: PeerId, newId: PeerId): string[] {
+    const affected: string[] = [];
+    for (const [key, sources] of Array.from(this.claims)) {
+      const moved = sources.get(oldId);
+      if (!moved) continue;
+
+      this.drop(key, oldId);
+      this.recordAs(newId, moved.signal);
+      affected.push(key);
+    }
+    return affected;
+  }
+
+  /**
+   * The identity, by current key, a key's assertions are kept under
+   */
+  identityOf(sourceId: PeerId): PeerId {
+    return this.identity(sourceId);
+  }
+
+  /**
+   * What a source currently asserts about a claim
+   */
+  get(claimHash: string, sourceId: PeerId, domain?: string): Assertion | undefined {
+    return this.claims.get(beliefKey(claimHash, domain))?.get(this.identity(sourceId));
+  }
+
+  /**
+   * Every source's current assertion on a claim, by belief key
+   */
+  sources(key: string): Assertion[] {
+    return Array.from(this.claims.get(key)?.values() ?? []);
+  }
+
+  /**
+   * Every claim a source currently asserts something about
+   */
+  bySource(sourceId: PeerId): Assertion[] {
+    const out: Assertion[] = [];
+    const id = this.identity(sourceId);
+    for (const sources of this.claims.values()) {
+      const assertion = sources.get(id);
+      if (assertion) out.push(assertion);
+    }
+    return out;
+  }
+
+  /**
+   * Drop a source's assertion on a claim, by belief key
+   */
+  remove(key: string, sourceId: PeerId): boolean {
+    return this.drop(key, this.identity(sourceId));
+  }
+
+  /**
+   * Evict every assertion on a claim, by belief key
+   */
+  forget(key: string): void {
+    for (const sourceId of Array.from(this.claims.get(key)?.keys() ?? [])) {
+      this.drop(key, sourceId, true);
+    }
+  }
+
+  /**
+   * Subscribe to changes; returns an unsubscribe function
+   */
+  onChange(listener: LedgerListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Get count of claims with at least one assertion
+   */
+  get size(): number {
+    return this.claims.size;
+  }
+
+  /**
+   * Clear all assertions
+   */
+  clear(): void {
+    this.claims.clear();
+  }
+
+  /**
+   * Record a signal under an identity's current key
+   */
+  private recordAs(sourceId: PeerId, signal: LearningSignal): Assertion | undefined {
+    const key = beliefKey(signal.payload.claim_hash, signal.domain);
+    const sources = this.claims.get(key) ?? new Map<PeerId, Assertion>();
+    const prior = sources.get(sourceId);
+    const hlc = signal.hlc ?? { wall: signal.timestamp, logical: 0 };
+    if (prior && compareHlc(hlc, prior.hlc) <= 0) return undefined;
+
+    if (signal.signal_type === 'deprecation') {
+      if (prior) this.drop(key, sourceId);
+      return undefined;
+    }
+
+    const assertion: Assertion = {
+      claimHash: signal.payload.claim_hash,
+      domain: signal.domain,
+      sourceId,
+      signalId: signal.signal_id,
+      stance: signal.payload.direction,
+      confidence: signal.payload.confidence,
+      timestamp: signal.timestamp,
+      hlc,
+      evidenceHash: signal.payload.evidence_hash,
+      signal,
+    };
+    sources.set(sourceId, assertion);
+
+    // Re-insert so the claim counts as most recently updated
+    this.claims.delete(key);
+    this.claims.set(key, sources);
+    this.notify({ key, sourceId, before: prior, after: assertion });
+
+    if (sources.size > this.maxSources) this.evictWeakest(key, sources);
+    if (this.claims.size > this.maxClaims) this.forget(this.claims.keys().next().value as string);
+
+    // Evicted at once if it was already the weakest
+    return sources.get(sourceId) === assertion ? assertion : undefined;
+  }
+
+  /**
+   * Drop an assertion by the key its identity is kept under
+   */
+  private drop(key: string, sourceId: PeerId, evicted = false): boolean {
+    const sources = this.claims.get(key);
+    const before = sources?.get(sourceId);
+    if (!sources || !before) return false;
+
+    sources.delete(sourceId);
+    if (sources.size === 0) this.claims.delete(key);
+    this.notify(evicted ? { key, sourceId, before, evicted } : { key, sourceId, before });
+    return true;
+  }
+
+  /**
+   * Evict the least influential source on a claim, the stalest among equals.
+   * A newcomer weaker than everyone already present is refused this way.
+   */
+  private evictWeakest(key: string, sources: Map<PeerId, Assertion>): void {
+    let weakest: { assertion: Assertion; influence: number } | undefined;
+    for (const assertion of sources.values()) {
+      const influence = this.influence(assertion.sourceId, assertion.domain);
+      if (
+        !weakest ||
+        influence < weakest.influence ||
+        (influence === weakest.influence && compareHlc(assertion.hlc, weakest.assertion.hlc) < 0)
+      ) {
+        weakest = { assertion, influence };
+      }
+    }
+    this.drop(key, weakest!.assertion.sourceId, true);
+  }
+
+  private notify(change: LedgerChange): void {
+    for (const listener of this.listeners) {
+      listener(change);
+    }
+  }
+}
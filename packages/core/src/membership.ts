@@ -3,7 +3,10 @@
  * ==========
  * 
  * Manages swarm membership with heartbeats, liveness detection,
- * and T-state aware peer exchange.
+ * and T-state aware peer exchange. Peers announce their cluster and
+ * whether they bridge clusters, but scope routing relies only on the
+ * cluster members and bridges configured locally: an announcement is
+ * the peer's own word.
  */
 
 import { 
@@ -23,8 +26,11 @@ export interface PeerInfo {
   alive: boolean;
   confidence: number;
   tState?: TState;
+  skewMs?: number;           // Estimated clock offset, positive when ahead
 }
 
+const SKEW_SMOOTHING = 0.2;
+
 export class Membership {
   private peers = new Map<PeerId, PeerInfo>();
   private config: SwarmConfig;
@@ -50,9 +56,53 @@ export class Membership {
       from: this.transport.id,
       ts: nowMs(),
       tState: this.tStateManager.state,
+      ...this.clusterAnnouncement(),
     });
   }
 
+  /**
+   * Cluster fields carried on HELLO and HEARTBEAT
+   */
+  private clusterAnnouncement(): { cluster?: string; bridge?: boolean } {
+    if (this.config.clusterId === null) return {};
+    return { cluster: this.config.clusterId, bridge: this.config.bridge || undefined };
+  }
+
+  /**
+   * This node's cluster, or null when clusters are not in use
+   */
+  get cluster(): string | null {
+    return this.config.clusterId;
+  }
+
+  /**
+   * Check if this node bridges clusters
+   */
+  get isBridge(): boolean {
+    return this.config.bridge;
+  }
+
+  /**
+   * Cluster a peer is configured in; undefined if it is not listed
+   */
+  clusterOf(peerId: PeerId): string | undefined {
+    return Object.hasOwn(this.config.clusterMembers, peerId) ? this.config.clusterMembers[peerId] : undefined;
+  }
+
+  /**
+   * Check if a peer is configured as a bridge
+   */
+  isBridgePeer(peerId: PeerId): boolean {
+    return this.config.bridgePeers.includes(peerId);
+  }
+
+  /**
+   * Connected peers in this node's cluster
+   */
+  clusterPeers(): PeerId[] {
+    return this.connectedPeers().filter(p => this.clusterOf(p) === this.config.clusterId);
+  }
+
   /**
    * Process a tick - send heartbeats, check liveness
    */
@@ -65,6 +115,7 @@ export class Membership {
         ts: now,
         tState: this.tStateManager.state,
         confidence: 1.0, // Could be dynamic
+        ...this.clusterAnnouncement(),
       });
     }
 
@@ -141,10 +192,13 @@ export class Membership {
   /**
    * Handle incoming wire message
    */
-  private onWire(m: WireMessage): void {
+  private onWire(m: WireMessage): Promise<void> {
+    // Sender clocks may run ahead; liveness never extends past local now
+    const now = nowMs();
     switch (m.type) {
       case 'HELLO': {
-        this.observe(m.from, m.ts, 1.0, m.tState);
+        this.observe(m.from, Math.min(m.ts, now), 1.0, m.tState);
+        this.estimateSkew(m.from, m.ts, now);
         // Reply with peer list
         this.transport.send(m.from, {
           type: 'PEER_LIST',
@@ -155,20 +209,46 @@ export class Membership {
         break;
       }
       case 'HEARTBEAT':
-        this.observe(m.from, m.ts, m.confidence ?? 1.0, m.tState);
+        this.observe(m.from, Math.min(m.ts, now), m.confidence ?? 1.0, m.tState);
+        this.estimateSkew(m.from, m.ts, now);
         break;
       case 'PEER_LIST':
-        this.observe(m.from, m.ts);
+        this.observe(m.from, Math.min(m.ts, now));
         for (const p of m.peers) {
-          this.observe(p, m.ts);
+          this.observe(p, Math.min(m.ts, now));
         }
         break;
     }
 
-    // Forward to other handlers
-    for (const h of this.handlers) {
-      h(m);
-    }
+    // Forward to other handlers; the transport reports any that fail
+    return Promise.all(this.handlers.map((h) => h(m))).then(() => undefined);
+  }
+
+  /**
+   * Fold a sender timestamp into the peer's smoothed clock offset.
+   * Transit delay biases the estimate low by the one-way latency.
+   */
+  private estimateSkew(peerId: PeerId, ts: number, now: number): void {
+    const peer = this.peers.get(peerId);
+    if (!peer || !Number.isFinite(ts)) return;
+    const sample = ts - now;
+    peer.skewMs = peer.skewMs === undefined
+      ? sample
+      : peer.skewMs + (sample - peer.skewMs) * SKEW_SMOOTHING;
+  }
+
+  /**
+   * Estimated clock offset of a peer; undefined if never heard from
+   */
+  skewOf(peerId: PeerId): number | undefined {
+    return this.peers.get(peerId)?.skewMs;
+  }
+
+  /**
+   * Check if a peer's clock is off by more than the tolerated skew
+   */
+  isSkewed(peerId: PeerId): boolean {
+    return Math.abs(this.skewOf(peerId) ?? 0) > this.config.maxClockSkewMs;
   }
 
   /**
@@ -16,6 +16,10 @@ import {
   TState,
   DriftReason,
   AuthorityWindow,
+  KeyRotation,
+  KeyRevocation,
+  ConsistencyViolation,
+  DEFAULT_DOMAIN,
 } from './types/index.js';
 
 // Authority
@@ -27,27 +31,44 @@ import { DriftDetector } from './authority/drift.js';
 import { ReputationSystem } from './security/reputation.js';
 import { QuarantineSystem } from './security/quarantine.js';
 import { AdmissionController } from './security/admission.js';
+import { KeyRotationManager, buildKeyRotation } from './security/rotation.js';
+import { RevocationManager, buildKeyRevocation } from './security/revocation.js';
 
 // Core
 import { BeliefStore } from './beliefs.js';
+import { aggregationStrategy } from './aggregation.js';
 import { Membership } from './membership.js';
 import { Propagation } from './propagation.js';
+import { AntiEntropy } from './sync.js';
 import { ConflictAccumulator } from './conflict.js';
 import { Checkpoints } from './checkpoint.js';
 import { RollbackLog } from './rollback.js';
 import { Arbitration } from './arbitration.js';
 import { PatternBundleManager } from './patterns.js';
+import { EvidenceStore } from './evidence.js';
+import { ClaimRegistry, isClaimAddress } from './claims.js';
+import { checkConsistency } from './consistency.js';
+import { AttestationManager } from './attestation.js';
 
 // Audit
 import { AuditLog } from './audit/log.js';
 
+// Transports
+import { SignedTransport } from './transports/signed.js';
+import { PriorityInbox } from './transports/priority.js';
+
 import { SignalBuilder, createSignalBuilder, buildSignal } from './signal.js';
+import { beliefKey, domainConfig, isDomainName } from './domains.js';
 import { nowMs } from './util/hash.js';
+import { HybridClock } from './util/hlc.js';
+import { LruCache } from './util/lru.js';
 
 export interface SwarmNodeCallbacks {
   onSignalReceived?: (signal: LearningSignal, from: PeerId) => void;
   onBeliefUpdated?: (claimHash: string, stance: string, confidence: number) => void;
+  onBeliefExpired?: (claimHash: string, domain: string) => void;
   onConflictDetected?: (claimHash: string, score: number) => void;
+  onInconsistencyDetected?: (violation: ConsistencyViolation) => void;
   onDriftDetected?: (peerId: PeerId, reason: DriftReason) => void;
   onTStateChanged?: (oldState: TState, newState: TState) => void;
   onAuthorityGranted?: (window: AuthorityWindow) => void;
@@ -59,7 +80,8 @@ export interface SwarmNodeCallbacks {
 export class SwarmNode {
   // Core identity
   readonly id: PeerId;
-  private signalBuilder: SignalBuilder;
+  private signalBuilders = new Map<string, SignalBuilder>();
+  private domainReputation: LruCache<string, ReputationSystem>;   // Least recently used domain evicted first
 
   // Config
   private config: SwarmConfig;
@@ -71,15 +93,23 @@ export class SwarmNode {
   readonly reputation: ReputationSystem;
   readonly quarantine: QuarantineSystem;
   readonly admission: AdmissionController;
+  readonly rotations: KeyRotationManager;
+  readonly revocations: RevocationManager;
+  readonly evidence: EvidenceStore;
+  readonly claims: ClaimRegistry;
   readonly beliefs: BeliefStore;
   readonly membership: Membership;
   readonly propagation: Propagation;
+  readonly sync: AntiEntropy;
   readonly conflicts: ConflictAccumulator;
   readonly checkpoints: Checkpoints;
   readonly rollback: RollbackLog;
   readonly arbitration: Arbitration;
+  readonly attestations: AttestationManager;
   readonly patterns: PatternBundleManager;
   readonly audit: AuditLog;
+  readonly wire: SignedTransport;
+  readonly clock: HybridClock;
 
   // State
   private started = false;
@@ -93,15 +123,24 @@ export class SwarmNode {
   ) {
     this.id = transport.id;
     this.config = { ...DEFAULT_CONFIG, ...config };
-
-    // Initialize signal builder
-    this.signalBuilder = createSignalBuilder(this.id, privateKey, 'default');
+    this.domainReputation = new LruCache(this.config.maxReputationDomains);
 
     // Initialize components
+    this.clock = new HybridClock(this.config.maxClockSkewMs);
     this.tState = new TStateManager(this.config);
     this.authority = new AuthorityManager(this.tState, this.config);
-    this.drift = new DriftDetector(this.config);
+    this.drift = new DriftDetector(this.config, (peerId) => this.beliefs.ledger.bySource(peerId));
     this.reputation = new ReputationSystem(this.config);
+
+    // Every message in or out is signed; unverified inbound never reaches components
+    this.wire = new SignedTransport(
+      transport,
+      privateKey,
+      this.reputation,
+      this.clock,
+      new PriorityInbox(this.tState, this.config)
+    );
+
     this.quarantine = new QuarantineSystem(this.config);
     this.admission = new AdmissionController(
       this.reputation,
@@ -109,32 +148,83 @@ export class SwarmNode {
       this.tState,
       this.config
     );
-    this.beliefs = new BeliefStore();
-    this.membership = new Membership(transport, this.tState, this.config);
-    this.propagation = new Propagation(
-      transport,
+    this.rotations = new KeyRotationManager(
+      this.wire,
       this.reputation,
       this.quarantine,
       this.config
     );
-    this.conflicts = new ConflictAccumulator(this.config);
-    this.checkpoints = new Checkpoints(transport, this.beliefs, this.conflicts);
+    this.revocations = new RevocationManager(
+      this.wire,
+      this.rotations,
+      this.reputation,
+      this.quarantine,
+      this.config
+    );
+    this.evidence = new EvidenceStore(this.wire, this.config);
+    this.beliefs = new BeliefStore({
+      evidence: this.evidence,
+      evidenceWeight: this.config.evidenceWeight,
+      aggregation: aggregationStrategy(this.config.beliefAggregation),
+      influence: (sourceId, domain) => this.influenceIn(sourceId, domain),
+      identity: (sourceId) => this.rotations.currentKey(sourceId),
+      ledger: {
+        maxSources: this.config.ledgerMaxSources,
+        maxClaims: this.config.ledgerMaxClaims,
+      },
+      maxClaims: this.config.ledgerMaxClaims,
+      decay: (domain) => domainConfig(this.config, domain),
+      deprecationQuorum: this.config.deprecationQuorum,
+    });
+    this.membership = new Membership(this.wire, this.tState, this.config);
+    this.propagation = new Propagation(
+      this.wire,
+      this.reputation,
+      this.quarantine,
+      this.config,
+      this.revocations,
+      this.membership,
+      this.tState,
+      privateKey,
+      this.rotations
+    );
+    this.sync = new AntiEntropy(this.wire, this.propagation, this.membership, this.tState, this.config, this.reputation);
+    this.claims = new ClaimRegistry(
+      this.wire,
+      this.config,
+      this.reputation,
+      (hash, domain) => this.beliefs.get(hash, domain) !== undefined
+    );
+    this.conflicts = new ConflictAccumulator(
+      this.config,
+      (hash) => this.claims.relationsOf(hash),
+      (hash, domain) => this.beliefs.ledger.sources(beliefKey(hash, domain)).filter(a => a.sourceId !== this.id)
+    );
+    this.checkpoints = new Checkpoints(this.wire, this.beliefs, this.conflicts, this.claims);
     this.rollback = new RollbackLog(this.beliefs);
     this.arbitration = new Arbitration(
-      transport,
+      this.wire,
       this.conflicts,
       this.reputation,
       this.quarantine,
-      this.config
+      this.config,
+      this.evidence
+    );
+    this.attestations = new AttestationManager(
+      this.wire,
+      this.arbitration,
+      privateKey,
+      this.config,
+      this.quarantine
     );
     this.patterns = new PatternBundleManager(
-      transport,
+      this.wire,
       this.beliefs,
       this.tState,
       this.reputation,
       this.config
     );
-    this.audit = new AuditLog();
+    this.audit = new AuditLog(this.clock);
 
     this.wireCallbacks();
   }
@@ -150,6 +240,14 @@ export class SwarmNode {
    * Wire internal component callbacks
    */
   private wireCallbacks(): void {
+    // Wire authentication
+    this.wire.setCallbacks({
+      onRejected: (msg, reason) => {
+        this.audit.logAction('wire_rejected', { type: msg.type, reason }, msg.from);
+      },
+      isDuplicate: (msg) => msg.type === 'LEARNING_SIGNAL' && this.propagation.isDuplicate(msg.signal),
+    });
+
     // T-State changes
     this.tState.onStateChange((oldState, newState) => {
       this.audit.logTStateChange(oldState, newState);
@@ -188,25 +286,31 @@ export class SwarmNode {
     // Propagation events
     this.propagation.setCallbacks({
       onAccepted: (signal, from) => {
+        if (signal.hlc) this.clock.receive(signal.hlc);
         this.audit.logSignalReceived(signal, from);
+        this.sync.record(signal);
         const belief = this.beliefs.apply(signal);
-        
-        // Update drift detector
-        this.drift.updateBelief(
-          from,
-          signal.payload.claim_hash,
-          signal.payload.direction,
-          signal.payload.confidence
-        );
 
-        // Update conflict accumulator
-        this.conflicts.observeBelief(
-          from,
-          signal.payload.claim_hash,
-          signal.payload.direction,
-          signal.payload.confidence,
-          signal.timestamp
-        );
+        // Authors earn standing per domain
+        const domainRep = this.reputationFor(signal.domain);
+        domainRep.track(signal.source_id);
+        domainRep.recordSuccess(signal.source_id);
+
+        if (belief.deprecated) {
+          this.conflicts.retire(belief.claimHash, signal.domain);
+        }
+
+        // Retrieve cited evidence; the belief is reweighed once it verifies
+        const cited = signal.payload.evidence_hash;
+        if (cited && !this.evidence.has(cited)) {
+          void this.evidence.fetch(cited, from);
+        }
+
+        // Learn what the claim means from the peer that sent it
+        const claim = signal.payload.claim_hash;
+        if (isClaimAddress(claim) && !this.claims.has(claim)) {
+          void this.claims.fetch(claim, from);
+        }
 
         this.callbacks.onSignalReceived?.(signal, from);
         this.callbacks.onBeliefUpdated?.(
@@ -217,6 +321,16 @@ export class SwarmNode {
       },
     });
 
+    // Ledger changes: conflicts rescore from the ledger, and forget claims it evicted
+    this.beliefs.ledger.onChange(({ key, sourceId, before, after, evicted }) => {
+      const { claimHash, domain } = (after ?? before)!;
+      if (evicted && this.beliefs.ledger.sources(key).length === 0) {
+        this.conflicts.retire(claimHash, domain);
+      } else if (sourceId !== this.id) {
+        this.conflicts.observeClaim(claimHash, domain, this.claims.meaningOf(claimHash) || undefined);
+      }
+    });
+
     // Conflict events
     this.conflicts.setCallbacks({
       onConflictDetected: (record) => {
@@ -224,6 +338,115 @@ export class SwarmNode {
         this.rollback.checkpoint(`conflict-${record.claimHash}`);
         this.callbacks.onConflictDetected?.(record.claimHash, record.conflictScore);
       },
+      onContradiction: (c) => {
+        this.audit.logAction('claim_contradiction', {
+          claimHash: c.claimHash,
+          relatedHash: c.relatedHash,
+          kind: c.kind,
+          score: c.score,
+        });
+        this.rollback.checkpoint(`conflict-${c.claimHash}`);
+        this.callbacks.onConflictDetected?.(c.claimHash, c.score);
+      },
+      onInconsistency: (v) => {
+        this.audit.logAction('inconsistency_detected', { id: v.id, claims: v.claims, domain: v.domain });
+        this.rollback.checkpoint(`inconsistency-${v.id}`);
+        this.callbacks.onInconsistencyDetected?.(v);
+        if (this.config.inconsistencyAction !== 'none') {
+          this.resolveInconsistency(v.id, this.config.inconsistencyAction);
+        }
+      },
+      onInconsistencyResolved: (v) => {
+        this.audit.logAction('inconsistency_resolved', { id: v.id });
+      },
+    });
+
+    // Claims: a new definition may relate claims already under observation
+    this.claims.setCallbacks({
+      onDefined: (hash, definition) => {
+        for (const link of this.claims.relationsOf(hash)) {
+          this.conflicts.recheck(link.from, definition.domain);
+        }
+      },
+      onRejected: (hash, from, reason) => {
+        this.reputation.recordFailure(from);
+        this.audit.logAction('claim_rejected', { hash, reason }, from);
+      },
+    });
+
+    // Evidence: verified artifacts reweigh the beliefs that cite them
+    this.evidence.setCallbacks({
+      onStored: (hash) => {
+        for (const { claimHash, domain } of this.beliefs.reweigh(hash)) {
+          const belief = this.beliefs.get(claimHash, domain);
+          if (belief) {
+            this.callbacks.onBeliefUpdated?.(belief.claimHash, belief.stance, belief.confidence);
+          }
+        }
+      },
+      onRejected: (hash, from, reason) => {
+        this.reputation.recordFailure(from);
+        this.audit.logAction('evidence_rejected', { hash, reason }, from);
+      },
+    });
+
+    // Key rotations: history follows the peer to its new key
+    this.rotations.setCallbacks({
+      onRotation: (rotation) => {
+        this.reputation.migrate(rotation.old_key, rotation.new_key);
+        for (const domain of this.domainReputation.keys()) {
+          this.domainReputation.peek(domain)!.migrate(rotation.old_key, rotation.new_key);
+        }
+        this.admission.migrate(rotation.old_key, rotation.new_key);
+        this.drift.migrate(rotation.old_key, rotation.new_key);
+        this.quarantine.migrate(rotation.old_key, rotation.new_key);
+        this.beliefs.migrate(rotation.old_key, rotation.new_key);
+        this.audit.logKeyRotation(rotation);
+      },
+      onRejected: (rotation, from, reason) => {
+        this.audit.logAction('key_rotation_rejected', { rotationId: rotation.rotation_id, reason }, from);
+      },
+    });
+
+    // Key revocations: unwind what the compromised key asserted
+    this.revocations.setCallbacks({
+      onRevocation: (revocation) => {
+        const from = revocation.revoked_from;
+        const until = revocation.revoked_until;
+        const conflicts = this.conflicts.flagForReview(revocation.key, from, until);
+        const claims = this.beliefs.revoke(revocation.key, from, until);
+        const proposals = [
+          ...this.arbitration.flagVoter(revocation.key, from, until),
+          ...this.arbitration.flagClaims(claims.map(c => c.claimHash)),
+        ];
+        this.audit.logKeyRevocation(revocation, {
+          claims: claims.map(c => beliefKey(c.claimHash, c.domain)),
+          conflicts,
+          proposals: Array.from(new Set(proposals)),
+        });
+
+        for (const { claimHash, domain } of claims) {
+          const belief = this.beliefs.get(claimHash, domain);
+          this.callbacks.onBeliefUpdated?.(claimHash, belief?.stance ?? 'unknown', belief?.confidence ?? 0);
+        }
+      },
+      onRejected: (revocation, from, reason) => {
+        this.audit.logAction('key_revocation_rejected', { revocationId: revocation.revocation_id, reason }, from);
+      },
+    });
+
+    // Attestations: certificates of arbitration outcomes
+    this.attestations.setCallbacks({
+      onCertified: (cert) => {
+        this.audit.logAction('attestation_certified', {
+          proposalId: cert.statement.proposal_id,
+          winner: cert.statement.winner,
+          signers: cert.signatures.map(s => s.signer),
+        });
+      },
+      onRejected: (proposalId, from, reason) => {
+        this.audit.logAction('attestation_rejected', { proposalId, reason }, from);
+      },
     });
 
     // Pattern events
@@ -247,12 +470,22 @@ export class SwarmNode {
     this.membership.start();
     this.checkpoints.start();
     this.arbitration.start();
+    this.attestations.start();
     this.patterns.start();
+    this.evidence.start();
+    this.claims.start();
+    this.sync.start();
+    this.rotations.start();
+    this.revocations.start();
 
     // Listen for signals
     this.membership.onMessage(async (m) => {
       if (m.type === 'LEARNING_SIGNAL') {
         await this.propagation.onIncoming(m.signal, m.from);
+      } else if (m.type === 'GOSSIP_DIGEST') {
+        this.propagation.onDigest(m.keys, m.from);
+      } else if (m.type === 'GOSSIP_PULL') {
+        this.propagation.onPull(m.keys, m.from);
       }
     });
 
@@ -268,6 +501,8 @@ export class SwarmNode {
 
     // Update membership
     this.membership.tick(now);
+    this.propagation.tick(now);
+    this.sync.tick(now);
 
     // Check authority expirations
     this.authority.checkExpirations(now);
@@ -276,8 +511,19 @@ export class SwarmNode {
     // Check quarantine expirations
     this.quarantine.checkExpirations(now);
 
+    // Age beliefs and the observations they are scored on
+    for (const belief of this.beliefs.sweepExpired(now)) {
+      const domain = belief.domain ?? DEFAULT_DOMAIN;
+      this.audit.logAction('belief_expired', { claimHash: belief.claimHash, domain });
+      this.callbacks.onBeliefExpired?.(belief.claimHash, domain);
+    }
+    this.conflicts.refresh(now);
+    this.conflicts.observeInconsistencies(
+      checkConsistency(this.beliefs.all(now), (hash) => this.claims.relationsOf(hash), now)
+    );
+
     // Check drift
-    const consensusBeliefs = this.beliefs.getConsensus();
+    const consensusBeliefs = this.beliefs.getConsensus(now);
     this.drift.check(consensusBeliefs, now);
 
     // Update T-state
@@ -288,6 +534,7 @@ export class SwarmNode {
     if (this.tick % 100 === 0) {
       this.checkpoints.prune();
       this.arbitration.prune();
+      this.attestations.prune();
     }
   }
 
@@ -298,28 +545,77 @@ export class SwarmNode {
     claimHash: string,
     direction: 'strengthen' | 'weaken' | 'retract',
     confidence: number,
-    options: { domain?: string; scope?: 'local' | 'cluster' | 'global' } = {}
+    options: {
+      domain?: string;
+      scope?: 'local' | 'cluster' | 'global';
+      evidence?: Uint8Array | string;
+    } = {}
   ): Promise<LearningSignal> {
-    if (options.domain) {
-      this.signalBuilder.domain = options.domain;
+    const evidence_hash = options.evidence !== undefined ? this.evidence.put(options.evidence) : undefined;
+    return this.publishSignal({ claim_hash: claimHash, direction, confidence, evidence_hash }, options);
+  }
+
+  /**
+   * Correct one of this node's earlier signals. Peers replay the belief
+   * as if the prior signal had never been sent.
+   */
+  async correctSignal(
+    priorSignalId: string,
+    direction: 'strengthen' | 'weaken' | 'retract',
+    confidence: number
+  ): Promise<LearningSignal> {
+    const prior = this.beliefs.findSignal(priorSignalId, this.id);
+    if (!prior || prior.source_id !== this.id) {
+      throw new Error(`Cannot correct unknown or foreign signal: ${priorSignalId}`);
     }
 
-    const signal = await buildSignal(
-      this.signalBuilder,
-      {
-        claim_hash: claimHash,
-        direction,
-        confidence,
-      },
-      {
-        scope: options.scope ?? 'cluster',
-        ttl: this.config.defaultTtl,
-      }
+    return this.publishSignal(
+      { claim_hash: prior.payload.claim_hash, direction, confidence },
+      { domain: prior.domain, scope: prior.scope, signalType: 'correction', priorSignal: priorSignalId }
     );
+  }
+
+  /**
+   * Retire a claim from active consideration across the swarm
+   */
+  async deprecateClaim(claimHash: string, domain?: string): Promise<LearningSignal> {
+    const current = this.beliefs.get(claimHash, domain);
+    return this.publishSignal(
+      { claim_hash: claimHash, direction: 'retract', confidence: current?.confidence ?? 0 },
+      { domain, signalType: 'deprecation', priorSignal: current?.lastSignalId }
+    );
+  }
+
+  /**
+   * Build, publish and locally apply a signal
+   */
+  private async publishSignal(
+    payload: LearningSignal['payload'],
+    options: {
+      domain?: string;
+      scope?: 'local' | 'cluster' | 'global';
+      signalType?: LearningSignal['signal_type'];
+      priorSignal?: string;
+    }
+  ): Promise<LearningSignal> {
+    const domain = options.domain ?? DEFAULT_DOMAIN;
+    if (!isDomainName(domain)) {
+      throw new Error(`Invalid domain name: ${domain}`);
+    }
+    const signal = await buildSignal(this.builderFor(domain), payload, {
+      scope: options.scope ?? 'cluster',
+      ttl: domainConfig(this.config, domain).defaultTtl,
+      signalType: options.signalType,
+      priorSignal: options.priorSignal,
+    });
 
     await this.propagation.publish(signal);
-    this.beliefs.apply(signal);
+    const belief = this.beliefs.apply(signal);
+    if (belief.deprecated) {
+      this.conflicts.retire(belief.claimHash, domain);
+    }
     this.audit.logSignalSent(signal);
+    this.sync.record(signal);
 
     // Record success for pattern generation
     this.patterns.recordSuccess();
@@ -327,6 +623,71 @@ export class SwarmNode {
     return signal;
   }
 
+  /**
+   * Signal builder for a domain; each keeps its own counter
+   */
+  private builderFor(domain: string): SignalBuilder {
+    let builder = this.signalBuilders.get(domain);
+    if (!builder) {
+      builder = createSignalBuilder(this.id, this.privateKey, domain, this.clock);
+      this.signalBuilders.set(domain, builder);
+    }
+    return builder;
+  }
+
+  /**
+   * Weight of a source's assertions in a domain: its standing there,
+   * never more than its swarm-wide influence
+   */
+  influenceIn(sourceId: PeerId, domain: string): number {
+    return Math.min(this.admission.getInfluence(sourceId), this.reputationFor(domain).getInfluence(sourceId));
+  }
+
+  /**
+   * Authors' reputation within a domain, under that domain's policy
+   */
+  reputationFor(domain: string): ReputationSystem {
+    let reputation = this.domainReputation.get(domain);
+    if (!reputation) {
+      reputation = new ReputationSystem(domainConfig(this.config, domain));
+      this.domainReputation.set(domain, reputation);
+    }
+    return reputation;
+  }
+
+  /**
+   * Announce that this node's identity moves to a new key.
+   * The node keeps running under its old key; restart it on a transport
+   * bound to the new public key once the statement has propagated.
+   */
+  async rotateKey(newPrivateKey: string, reason?: string): Promise<KeyRotation> {
+    const rotation = await buildKeyRotation(this.privateKey, newPrivateKey, {
+      reason,
+      ttl: this.config.defaultTtl,
+    });
+    await this.rotations.publish(rotation);
+    return rotation;
+  }
+
+  /**
+   * Declare a key compromised over [from, until). Defaults to this node's
+   * own key; a predecessor key in this node's rotation lineage may also be
+   * revoked.
+   */
+  async revokeKey(options: {
+    key?: PeerId;
+    from: number;
+    until?: number;
+    reason?: string;
+  }): Promise<KeyRevocation> {
+    const revocation = await buildKeyRevocation(this.privateKey, {
+      ...options,
+      ttl: this.config.defaultTtl,
+    });
+    await this.revocations.publish(revocation);
+    return revocation;
+  }
+
   /**
    * Request authority to act
    */
@@ -377,6 +738,21 @@ export class SwarmNode {
     return this.arbitration.propose(claimHash, options);
   }
 
+  /**
+   * Take a consistency violation to the swarm: checkpoint each claim in
+   * its minimal inconsistent subset, or put to arbitration which of them
+   * to give up. Returns the checkpoint or proposal ids.
+   */
+  resolveInconsistency(violationId: string, action: 'checkpoint' | 'arbitrate'): string[] {
+    const violation = this.conflicts.getInconsistency(violationId);
+    if (!violation) return [];
+
+    if (action === 'arbitrate') {
+      return [this.arbitration.propose(violation.claims[0], violation.claims)];
+    }
+    return violation.claims.map(claimHash => this.checkpoints.requestCheckpoint(claimHash));
+  }
+
   /**
    * Vote on an arbitration proposal
    */
@@ -385,12 +761,13 @@ export class SwarmNode {
   }
 
   /**
-   * Tally and resolve an arbitration
+   * Tally and resolve an arbitration, then ask voters to attest the outcome
    */
   resolveArbitration(proposalId: string): string | null {
     const winner = this.arbitration.tally(proposalId);
     if (winner) {
       this.rollback.checkpoint(`arbitration-resolved-${proposalId}`);
+      void this.attestations.request(this.arbitration.getProposal(proposalId)!);
     }
     return winner;
   }
@@ -454,8 +831,14 @@ export class SwarmNode {
     conflicts: ReturnType<ConflictAccumulator['export']>;
     authority: ReturnType<AuthorityManager['export']>;
     reputation: ReturnType<ReputationSystem['export']>;
+    domainReputation: Record<string, ReturnType<ReputationSystem['export']>>;
     quarantine: ReturnType<QuarantineSystem['export']>;
+    rotations: ReturnType<KeyRotationManager['export']>;
+    revocations: ReturnType<RevocationManager['export']>;
     patterns: ReturnType<PatternBundleManager['export']>;
+    evidence: ReturnType<EvidenceStore['export']>;
+    claims: ReturnType<ClaimRegistry['export']>;
+    attestations: ReturnType<AttestationManager['export']>;
     audit: ReturnType<AuditLog['export']>;
   } {
     return {
@@ -464,8 +847,16 @@ export class SwarmNode {
       conflicts: this.conflicts.export(),
       authority: this.authority.export(),
       reputation: this.reputation.export(),
+      domainReputation: Object.fromEntries(
+        this.domainReputation.keys().map(domain => [domain, this.domainReputation.peek(domain)!.export()])
+      ),
       quarantine: this.quarantine.export(),
+      rotations: this.rotations.export(),
+      revocations: this.revocations.export(),
       patterns: this.patterns.export(),
+      evidence: this.evidence.export(),
+      claims: this.claims.export(),
+      attestations: this.attestations.export(),
       audit: this.audit.export(),
     };
   }
@@ -14,6 +14,8 @@ import {
   Stance,
   SwarmConfig,
   DEFAULT_CONFIG,
+  SIGNAL_ENVELOPE_VERSION,
+  DEFAULT_DOMAIN,
   Transport,
   WireMessage
 } from './types/index.js';
@@ -107,10 +109,12 @@ export class PatternBundleManager {
   }
 
   /**
-   * Generate a pattern bundle from current beliefs
+   * Generate a pattern bundle from current (non-deprecated) beliefs.
+   * Bundles carry no domain, so only default-domain beliefs are included.
    */
   private generateBundle(successRate: number): PatternBundle {
-    const beliefs = this.beliefs.all();
+    const beliefs = this.beliefs.active()
+      .filter(b => (b.domain ?? DEFAULT_DOMAIN) === DEFAULT_DOMAIN);
     const claimHashes = beliefs.map(b => b.claimHash);
     const stances: Record<string, Stance> = {};
     
@@ -140,7 +144,7 @@ export class PatternBundleManager {
       },
       authorityContext: {
         tState: this.tStateManager.state,
-        scopeHash: hashJson({ claims: claimHashes.sort() }),
+        scopeHash: hashJson({ claims: [...claimHashes].sort() }),
       },
       status: 'local' as PatternStatus,
     };
@@ -190,23 +194,26 @@ export class PatternBundleManager {
     for (const [claimHash, stance] of Object.entries(bundle.pattern.stances)) {
       const existing = this.beliefs.get(claimHash);
       
+      if (stance === 'unknown' || existing?.deprecated) continue;
+
       // Only adopt if we don't have a stronger belief
       if (!existing || existing.confidence < bundle.pattern.confidence) {
         // Create a synthetic signal to apply
         this.beliefs.apply({
+          v: SIGNAL_ENVELOPE_VERSION,
           source_id: bundle.generatedBy,
           signal_id: `${bundle.id}-adopted`,
           timestamp: nowMs(),
-          domain: 'pattern-adoption',
+          domain: DEFAULT_DOMAIN,
           signal_type: 'delta',
           payload: {
             claim_hash: claimHash,
             direction: stance,
             confidence: bundle.pattern.confidence,
           },
-          ttl: 0,
           scope: 'local',
           signature: '',
+          routing: { ttl: 0, hops: 0, path: [] },
         });
       }
     }
@@ -4,27 +4,122 @@
  * 
  * Handles signal propagation with verification, deduplication,
  * and reputation-weighted forwarding.
+ *
+ * Copies are deduplicated on the signed content hash before any
+ * signature work. Verifications requested in the same tick are batched,
+ * and verified (content, signature) pairs are kept in an LRU cache.
+ * The dedupe record is a time window over signal timestamps; signals
+ * older than the window are rejected, so a replay is always caught.
+ *
+ * Relaying peers and authors each have a token bucket whose rate grows
+ * with their influence. Relays are limited before verification, authors
+ * after it, since only then is `source_id` proven. When the verification
+ * queue is full, new signals are shed until it drains.
+ *
+ * Scope decides where a signal may travel: `local` never leaves the
+ * node, `cluster` stays inside this node's cluster, and `global` crosses
+ * into other clusters only through bridge peers. Without a configured
+ * cluster there are no boundaries and cluster/global are broadcast.
+ *
+ * In gossip mode an accepted signal is pushed to `gossipFanout` peers
+ * sampled at random instead of flooded to all of them. Each tick a
+ * digest of recent signal keys goes to one random peer, which pulls
+ * what it is missing and pushes back what the digest lacks.
+ *
+ * Forwarding follows the T-state. In T1 forwarded signals carry at
+ * most `degradedTtl` hops. In T2 and T3 nothing is forwarded, and
+ * locally published signals are held instead. Once learning propagation
+ * is allowed again, held signals are released `holdFlushBatch` per tick.
+ *
+ * With `signRelayHops`, each relay appends a signed hop record naming
+ * the ttl it forwarded with and when. A trail that fails to verify is
+ * the sender's fault. A relay that raised the ttl tampered with the
+ * copy, one that cut it below what its T-state allows dropped it
+ * short, and one that held it past `maxHopDelayMs` delayed it; its own
+ * signature proves each. A sender that delayed the copy is not credited.
+ * Relays that do not sign strip the trail, since they cannot extend it.
  */
 
 import { 
   Transport, 
   PeerId, 
   LearningSignal,
+  RelayFault,
+  DriftReason,
+  TState,
   SwarmConfig,
   DEFAULT_CONFIG 
 } from './types/index.js';
-import { verifySignal } from './signal.js';
-import { nowMs, hashJson } from './util/hash.js';
+import { verifySignal, verifySignals, relaySignal, contentHash, signHop, verifyTrail, isRouting } from './signal.js';
+import { nowMs } from './util/hash.js';
+import { LruCache } from './util/lru.js';
+import { DedupeWindow } from './util/dedupe.js';
+import { bytesToHex } from '@noble/hashes/utils';
 import { ReputationSystem } from './security/reputation.js';
 import { QuarantineSystem } from './security/quarantine.js';
+import { RevocationManager } from './security/revocation.js';
+import { KeyRotationManager } from './security/rotation.js';
+import { RateLimiter } from './security/ratelimit.js';
+import { isSubscribed, isDomainName } from './domains.js';
+import { isHlc } from './util/hlc.js';
+import { Membership } from './membership.js';
+import { TStateManager } from './authority/tstate.js';
 
 export interface PropagationCallbacks {
   onAccepted?: (signal: LearningSignal, from: PeerId) => void;
   onRejected?: (signal: LearningSignal, from: PeerId, reason: string) => void;
+  onRelayFault?: (signal: LearningSignal, relay: PeerId, fault: RelayFault) => void;
 }
 
+export interface PropagationStats {
+  received: number;        // Copies handed to onIncoming
+  duplicates: number;      // Dropped by dedupe before verification
+  filtered: number;        // Dropped for an unsubscribed domain
+  stale: number;           // Older than the dedupe window
+  skewed: number;          // Timestamped too far in the future
+  rateLimited: number;     // Over a relay or author budget
+  shed: number;            // Dropped while the verification queue was full
+  verified: number;        // Signatures actually checked
+  cacheHits: number;       // Verifications answered by the cache
+  batches: number;         // Verification batches flushed
+  published: number;       // Signals authored here
+  accepted: number;        // Signals accepted from peers
+  sent: number;            // Signal copies sent, including pull replies
+  digests: number;         // Gossip digests sent
+  pulls: number;           // Signals served in reply to a pull
+  held: number;            // Local signals held while forwarding was paused
+  released: number;        // Held signals forwarded once it resumed
+  relayFaults: number;     // Faults proven by signed hop trails
+  meanLatencyMs: number;   // Authoring to acceptance, averaged
+  maxLatencyMs: number;    // Slowest acceptance seen
+}
+
+export interface RelayRecord {
+  relayed: number;         // Accepted signals whose valid trail names this relay
+  tampered: number;
+  dropped: number;
+  delayed: number;
+}
+
+const MAX_RELAY_RECORDS = 10_000;
+const SIGNAL_KEY = /^[0-9a-f]{64}$/;   // Hex SHA-256 content hash
+
 export class Propagation {
-  private seen = new Set<string>();
+  private seen: DedupeWindow;
+  private verified: LruCache<string, true>;
+  private pending = new Map<string, Promise<boolean>>();
+  private batch: Array<{ signal: LearningSignal; key: string; resolve: (ok: boolean) => void }> = [];
+  private recent: LruCache<string, LearningSignal>;
+  private held: LruCache<string, LearningSignal>;
+  private relays = new LruCache<PeerId, RelayRecord>(MAX_RELAY_RECORDS);
+  private relayLimits: RateLimiter;
+  private sourceLimits: RateLimiter;
+  private lastGossip = 0;
+  private totalLatencyMs = 0;
+  private stats: PropagationStats = {
+    received: 0, duplicates: 0, filtered: 0, stale: 0, skewed: 0, rateLimited: 0, shed: 0, verified: 0, cacheHits: 0, batches: 0,
+    published: 0, accepted: 0, sent: 0, digests: 0, pulls: 0, held: 0, released: 0, relayFaults: 0, meanLatencyMs: 0, maxLatencyMs: 0,
+  };
   private config: SwarmConfig;
   private callbacks: PropagationCallbacks = {};
 
@@ -32,9 +127,20 @@ export class Propagation {
     private transport: Transport,
     private reputation: ReputationSystem,
     private quarantine: QuarantineSystem,
-    config: Partial<SwarmConfig> = {}
+    config: Partial<SwarmConfig> = {},
+    private revocations?: RevocationManager,
+    private membership?: Membership,
+    private tState?: TStateManager,
+    private privateKey?: string,
+    private rotations?: KeyRotationManager
   ) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.verified = new LruCache(this.config.verifyCacheSize);
+    this.seen = new DedupeWindow(this.config.dedupeWindowMs, this.config.dedupeEpochs, this.config.maxSeenSignals);
+    this.recent = new LruCache(this.config.gossipDigestSize);
+    this.held = new LruCache(this.config.holdQueueSize);
+    this.relayLimits = new RateLimiter(this.config.relayRatePerSec, this.config.rateBurstSeconds);
+    this.sourceLimits = new RateLimiter(this.config.sourceRatePerSec, this.config.rateBurstSeconds);
   }
 
   /**
@@ -53,55 +159,433 @@ export class Propagation {
       throw new Error('Refusing to publish unsigned/invalid signal');
     }
 
-    this.markSeen(this.signalKey(signal));
+    const key = this.signalKey(signal);
+    if (!this.seen.covers(signal.timestamp, nowMs())) {
+      throw new Error('Refusing to publish signal older than the dedupe window');
+    }
+    this.verified.set(`${key}:${signal.signature}`, true);
+    this.markSeen(key, signal.timestamp);
+    this.recent.set(key, signal);
+    this.stats.published++;
     this.forward(signal, this.transport.id);
   }
 
+  /**
+   * Check if a copy of a signal was already accepted, without verifying
+   * anything. Lets the wire layer skip signature work on duplicates.
+   */
+  isDuplicate(signal: LearningSignal): boolean {
+    let key: string;
+    try {
+      key = this.signalKey(signal);
+    } catch {
+      return false; // Malformed; onIncoming reports it
+    }
+    if (!this.seen.has(key)) return false;
+
+    this.stats.duplicates++;
+    return true;
+  }
+
   /**
    * Handle an incoming signal
    */
   async onIncoming(signal: LearningSignal, from: PeerId): Promise<LearningSignal | null> {
+    this.stats.received++;
+
     // Check if sender is quarantined
     if (this.quarantine.isQuarantined(from)) {
       this.callbacks.onRejected?.(signal, from, 'Sender quarantined');
       return null;
     }
 
+    // Every copy counts against the relay, duplicates included
+    if (!this.withinRate(this.relayLimits, from)) {
+      this.callbacks.onRejected?.(signal, from, 'Relay rate limit exceeded');
+      return null;
+    }
+
+    // Domains we have not subscribed to are neither accepted nor relayed
+    if (!isSubscribed(this.config, signal.domain)) {
+      this.stats.filtered++;
+      return null;
+    }
+
+    // Scope violations are the sender's fault, whoever authored the signal
+    const violation = this.scopeViolation(signal, from);
+    if (violation) {
+      this.reputation.recordFailure(from);
+      this.callbacks.onRejected?.(signal, from, violation);
+      return null;
+    }
+
+    // Dedupe before any signature work
+    let key: string;
+    try {
+      if (signal.hlc !== undefined && !isHlc(signal.hlc)) throw new Error('Malformed HLC');
+      if (!isRouting(signal.routing)) throw new Error('Malformed routing');
+      if (!isDomainName(signal.domain)) throw new Error('Malformed domain');
+      key = this.signalKey(signal);
+    } catch {
+      this.reputation.recordFailure(from);
+      this.callbacks.onRejected?.(signal, from, 'Malformed signal');
+      return null;
+    }
+    if (this.seen.has(key)) {
+      this.stats.duplicates++;
+      return null; // Silent dedupe, not a rejection
+    }
+
+    // Too old to be in the dedupe record, so it could be a replay
+    if (!this.seen.covers(signal.timestamp, nowMs())) {
+      this.stats.stale++;
+      this.callbacks.onRejected?.(signal, from, 'Outside dedupe window');
+      return null;
+    }
+
+    // TTL gate
+    if (signal.routing.ttl <= 0) {
+      this.callbacks.onRejected?.(signal, from, 'TTL expired');
+      return null;
+    }
+
+    // Backpressure: leave it unseen so a later copy can still get through
+    if (this.backlogged) {
+      this.stats.shed++;
+      return null;
+    }
+
     // Verify signature
-    const ok = await verifySignal(signal);
+    const ok = await this.verify(signal, key);
     if (!ok) {
       this.reputation.recordFailure(from);
       this.callbacks.onRejected?.(signal, from, 'Invalid signature');
       return null;
     }
 
-    // TTL gate
-    if (signal.ttl <= 0) {
-      this.callbacks.onRejected?.(signal, from, 'TTL expired');
+    // A future timestamp would win every newer-wins comparison; the
+    // signature pins it on the author, not the relay
+    if (Math.max(signal.timestamp, signal.hlc?.wall ?? 0) - nowMs() > this.config.maxClockSkewMs) {
+      this.stats.skewed++;
+      this.reputation.track(signal.source_id);
+      this.reputation.recordViolation(signal.source_id, DriftReason.CLOCK_SKEW);
+      const reason = this.membership?.isSkewed(signal.source_id)
+        ? 'Timestamp in future: author clock ahead'
+        : 'Timestamp in future';
+      this.callbacks.onRejected?.(signal, from, reason);
       return null;
     }
 
-    // Dedupe
-    const key = this.signalKey(signal);
+    // Authors over budget are not relayed, so a flood stops at one hop
+    if (!this.withinRate(this.sourceLimits, signal.source_id)) {
+      this.callbacks.onRejected?.(signal, from, 'Source rate limit exceeded');
+      return null;
+    }
+
+    // Signed by a key declared compromised at that time
+    if (this.revocations?.isRevoked(signal.source_id, signal.timestamp)) {
+      this.callbacks.onRejected?.(signal, from, 'Signed by revoked key');
+      return null;
+    }
+
+    // Signed by a key after it was rotated out, which only a leaked key would do
+    if (this.rotations?.isRetired(signal.source_id, signal.timestamp)) {
+      this.callbacks.onRejected?.(signal, from, 'Signed by retired key');
+      return null;
+    }
+
+    // Hop records pin tampering on the relay that signed it
+    const trail = await this.checkTrail(signal, from);
+    if (trail.rejected) {
+      this.callbacks.onRejected?.(signal, from, trail.rejected);
+      return null;
+    }
+
+    // Another copy may have been accepted while this one was verifying
     if (this.seen.has(key)) {
-      return null; // Silent dedupe, not a rejection
+      this.stats.duplicates++;
+      return null;
     }
 
-    this.markSeen(key);
+    if (!this.markSeen(key, signal.timestamp)) {
+      this.stats.stale++;
+      this.callbacks.onRejected?.(signal, from, 'Outside dedupe window');
+      return null;
+    }
+    this.recordLatency(signal);
 
-    // Record success for sender
-    this.reputation.recordSuccess(from);
+    // Record success for sender, unless it sat on the signal
+    if (trail.timely) this.reputation.recordSuccess(from);
 
-    // Forward with decremented TTL
-    const forwarded: LearningSignal = { ...signal, ttl: signal.ttl - 1 };
-    this.forward(forwarded, from);
+    // Forward with decremented TTL; routing is outside the signed body
+    const relayed = await this.annotate(this.narrow(relaySignal(signal, this.transport.id)));
+    this.recent.set(key, relayed);
+    this.forward(relayed, from);
 
     this.callbacks.onAccepted?.(signal, from);
     return signal;
   }
 
   /**
-   * Forward a signal to peers
+   * Check a signal's hop trail and charge proven faults to the relays
+   * that signed them. Copies without a trail pass unchecked.
+   */
+  private async checkTrail(
+    signal: LearningSignal,
+    from: PeerId
+  ): Promise<{ rejected?: string; timely: boolean }> {
+    const trail = signal.routing.trail;
+    if (trail === undefined || (Array.isArray(trail) && trail.length === 0)) return { timely: true };
+
+    // The sender must have signed last, for the ttl it actually sent
+    const last = Array.isArray(trail) ? trail[trail.length - 1] : undefined;
+    if (last?.relay !== from || last.ttl !== signal.routing.ttl || await verifyTrail(signal) >= 0) {
+      this.relayFault(signal, from, 'tampered');
+      return { rejected: 'Invalid relay trail', timely: false };
+    }
+
+    const faults: Array<[PeerId, RelayFault]> = [];
+    for (let i = 1; i < trail.length; i++) {
+      const prev = trail[i - 1];
+      const hop = trail[i];
+      if (hop.ttl > prev.ttl - 1) {
+        this.relayFault(signal, hop.relay, 'tampered');
+        return { rejected: 'Relay raised ttl', timely: false };
+      }
+      if (hop.ttl < Math.min(prev.ttl - 1, this.config.degradedTtl)) {
+        faults.push([hop.relay, 'dropped']);
+      }
+      // Gossip serves pulls from its recent set, so hop gaps are not a relay's doing
+      if (this.config.propagationMode === 'flood' && hop.ts - prev.ts > this.config.maxHopDelayMs) {
+        faults.push([hop.relay, 'delayed']);
+      }
+    }
+
+    for (const [relay, fault] of faults) this.relayFault(signal, relay, fault);
+    for (const hop of trail) this.relayRecord(hop.relay).relayed++;
+    return { timely: !faults.some(([relay, fault]) => relay === from && fault === 'delayed') };
+  }
+
+  /**
+   * Charge a proven fault to a relay. Delays cost credit, not reputation,
+   * since an honest relay's clock can be off.
+   */
+  private relayFault(signal: LearningSignal, relay: PeerId, fault: RelayFault): void {
+    this.stats.relayFaults++;
+    this.relayRecord(relay)[fault]++;
+    if (fault !== 'delayed') {
+      this.reputation.track(relay);
+      this.reputation.recordFailure(relay);
+    }
+    this.callbacks.onRelayFault?.(signal, relay, fault);
+  }
+
+  private relayRecord(relay: PeerId): RelayRecord {
+    let record = this.relays.get(relay);
+    if (!record) {
+      record = { relayed: 0, tampered: 0, dropped: 0, delayed: 0 };
+      this.relays.set(relay, record);
+    }
+    return record;
+  }
+
+  /**
+   * Get what signed trails have shown about a relay
+   */
+  getRelayRecord(relay: PeerId): RelayRecord | undefined {
+    const record = this.relays.peek(relay);
+    return record && { ...record };
+  }
+
+  /**
+   * Sign our hop onto a copy we relay, or strip a trail we cannot extend
+   */
+  private async annotate(signal: LearningSignal): Promise<LearningSignal> {
+    if (this.config.signRelayHops && this.privateKey) {
+      return signHop(signal, this.transport.id, this.privateKey, nowMs());
+    }
+    if (signal.routing.trail === undefined) return signal;
+    const { trail: _trail, ...routing } = signal.routing;
+    return { ...signal, routing };
+  }
+
+  /**
+   * Cap the ttl of a forwarded copy while in T1
+   */
+  private narrow(signal: LearningSignal): LearningSignal {
+    if (this.tState?.state !== TState.T1 || signal.routing.ttl <= this.config.degradedTtl) return signal;
+    return { ...signal, routing: { ...signal.routing, ttl: this.config.degradedTtl } };
+  }
+
+  /**
+   * Spend a token from a peer's bucket, scaled by its influence; the
+   * first drop after being within budget costs reputation
+   */
+  private withinRate(limiter: RateLimiter, peer: PeerId): boolean {
+    const scale = this.reputation.getInfluence(peer) / this.config.newPeerInfluence;
+    const { allowed, penalize } = limiter.take(peer, scale);
+    if (!allowed) {
+      this.stats.rateLimited++;
+      if (penalize) {
+        this.reputation.track(peer);
+        this.reputation.recordFailure(peer);
+      }
+    }
+    return allowed;
+  }
+
+  /**
+   * Check if the verification queue is full
+   */
+  get backlogged(): boolean {
+    return this.pending.size >= this.config.maxInboundQueue;
+  }
+
+  /**
+   * Verify a signal through the cache, joining an in-flight or queued
+   * verification of the same content and signature when there is one
+   */
+  private verify(signal: LearningSignal, key: string): Promise<boolean> {
+    const cacheKey = `${key}:${signal.signature}`;
+    if (this.verified.get(cacheKey)) {
+      this.stats.cacheHits++;
+      return Promise.resolve(true);
+    }
+
+    let pending = this.pending.get(cacheKey);
+    if (!pending) {
+      pending = new Promise<boolean>(resolve => {
+        if (this.batch.length === 0) {
+          queueMicrotask(() => { void this.flush(); });
+        }
+        this.batch.push({ signal, key: cacheKey, resolve });
+      });
+      this.pending.set(cacheKey, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Verify every signal queued this tick in one pass
+   */
+  private async flush(): Promise<void> {
+    const batch = this.batch;
+    this.batch = [];
+    if (batch.length === 0) return;
+
+    this.stats.batches++;
+    this.stats.verified += batch.length;
+
+    const results = batch.length === 1
+      ? [await verifySignal(batch[0].signal)]
+      : await verifySignals(batch.map(b => b.signal));
+
+    batch.forEach((b, i) => {
+      if (results[i]) this.verified.set(b.key, true);
+      this.pending.delete(b.key);
+      b.resolve(results[i]);
+    });
+  }
+
+  /**
+   * Check an inbound signal against its scope; returns the rejection
+   * reason, or null if the sender was allowed to deliver it
+   */
+  private scopeViolation(signal: LearningSignal, from: PeerId): string | null {
+    if (signal.scope === 'local') {
+      return 'Scope violation: local signal received';
+    }
+
+    const cluster = this.membership?.cluster ?? null;
+    if (cluster === null) return null;
+
+    // Peers not configured in this node's cluster are foreign, whatever they announce
+    const foreignSender = this.membership!.clusterOf(from) !== cluster;
+
+    if (signal.scope === 'cluster') {
+      if (foreignSender || this.membership!.clusterOf(signal.source_id) !== cluster) {
+        return 'Scope violation: cluster signal from outside cluster';
+      }
+      return null;
+    }
+
+    if (foreignSender && !this.membership!.isBridgePeer(from)) {
+      return 'Scope violation: global signal crossed cluster without bridge';
+    }
+    return null;
+  }
+
+  /**
+   * Release held signals if propagation has resumed, then send a digest
+   * of recent signals to one random peer, at most once per gossip interval
+   */
+  tick(now = nowMs()): void {
+    this.release(now);
+
+    if (this.config.propagationMode !== 'gossip' || this.holding) return;
+    if (now - this.lastGossip < this.config.gossipIntervalMs) return;
+    this.lastGossip = now;
+
+    const [peer] = sample(this.knownPeers(), 1);
+    if (!peer) return;
+
+    this.stats.digests++;
+    this.transport.send(peer, {
+      type: 'GOSSIP_DIGEST',
+      from: this.transport.id,
+      ts: now,
+      keys: this.recentFor(peer),
+    });
+  }
+
+  /**
+   * Handle a peer's digest: pull the signals we lack and push back the
+   * recent ones the digest does not list
+   */
+  onDigest(keys: string[], from: PeerId): void {
+    if (this.quarantine.isQuarantined(from) || this.holding) return;
+
+    const advertised = new Set(this.gossipKeys(keys, from));
+    const missing = Array.from(advertised).filter(k => !this.seen.has(k));
+    if (missing.length > 0 && !this.backlogged) {
+      this.transport.send(from, { type: 'GOSSIP_PULL', from: this.transport.id, ts: nowMs(), keys: missing });
+    }
+
+    for (const key of this.recentFor(from)) {
+      if (!advertised.has(key)) this.sendSignal(from, this.recent.peek(key)!);
+    }
+  }
+
+  /**
+   * Serve the signals a peer pulled after seeing our digest
+   */
+  onPull(keys: string[], from: PeerId): void {
+    if (this.quarantine.isQuarantined(from) || this.holding) return;
+
+    for (const key of this.gossipKeys(keys, from)) {
+      const signal = this.recent.peek(key);
+      if (signal && this.mayReceive(signal, from)) {
+        this.stats.pulls++;
+        this.sendSignal(from, signal);
+      }
+    }
+  }
+
+  /**
+   * Well-formed signal keys from a digest or pull, up to the digest size.
+   * Anything else in the list counts against the sender.
+   */
+  private gossipKeys(keys: unknown, from: PeerId): string[] {
+    const listed = Array.isArray(keys) ? keys.slice(0, this.config.gossipDigestSize) : [];
+    const valid = listed.filter((k): k is string => typeof k === 'string' && SIGNAL_KEY.test(k));
+    if (!Array.isArray(keys) || valid.length < listed.length) {
+      this.reputation.recordFailure(from);
+    }
+    return valid;
+  }
+
+  /**
+   * Forward a signal to the peers its scope allows
    */
   private forward(signal: LearningSignal, from: PeerId): void {
     // Don't forward if we're quarantined
@@ -109,41 +593,151 @@ export class Propagation {
       return;
     }
 
-    const msg = {
-      type: 'LEARNING_SIGNAL' as const,
-      from: this.transport.id,
-      ts: nowMs(),
-      signal,
-    };
+    if (signal.scope === 'local') {
+      return;
+    }
+
+    // Store-and-forward: our own signals wait for recontact, relays are dropped
+    if (this.holding) {
+      const key = this.signalKey(signal);
+      if (from === this.transport.id && !this.held.has(key)) {
+        this.stats.held++;
+        this.held.set(key, signal);
+      }
+      return;
+    }
+
+    signal = this.narrow(signal);
+
+    if (this.config.propagationMode === 'gossip') {
+      const visited = new Set([from, signal.source_id, ...signal.routing.path]);
+      const candidates = this.knownPeers().filter(p => !visited.has(p) && this.mayReceive(signal, p));
+      for (const peer of sample(candidates, this.config.gossipFanout)) {
+        this.sendSignal(peer, signal);
+      }
+      return;
+    }
+
+    const cluster = this.membership?.cluster ?? null;
+    const crossesClusters = signal.scope === 'global' && this.membership?.isBridge;
+    if (cluster === null || crossesClusters) {
+      this.stats.sent += this.transport.peers?.().length ?? 1;
+      this.transport.broadcast({ type: 'LEARNING_SIGNAL', from: this.transport.id, ts: nowMs(), signal });
+      return;
+    }
 
-    this.transport.broadcast(msg);
+    for (const peer of this.membership!.clusterPeers()) {
+      if (peer !== from) this.sendSignal(peer, signal);
+    }
   }
 
   /**
-   * Generate dedupe key for a signal
+   * Check if forwarding is paused for store-and-forward
    */
-  private signalKey(signal: LearningSignal): string {
-    return hashJson({
-      s: signal.source_id,
-      id: signal.signal_id,
-      p: signal.payload,
-      d: signal.domain,
-    });
+  get holding(): boolean {
+    return this.tState?.state === TState.T2 || this.tState?.state === TState.T3;
+  }
+
+  /**
+   * Count of signals waiting to be released
+   */
+  get heldCount(): number {
+    return this.held.size;
   }
 
   /**
-   * Mark a signal as seen
+   * Forward up to one batch of held signals while learning propagation
+   * is allowed, oldest first. Signals that aged out of the dedupe window
+   * would be rejected by every peer, so they are dropped instead.
    */
-  private markSeen(key: string): void {
-    this.seen.add(key);
-    
-    // Crude eviction when too large
-    if (this.seen.size > this.config.maxSeenSignals) {
-      const arr = Array.from(this.seen);
-      this.seen = new Set(arr.slice(arr.length - Math.floor(this.config.maxSeenSignals * 0.9)));
+  private release(now: number): void {
+    if (this.held.size === 0 || !this.tState?.canPropagateLearning()) return;
+
+    for (const key of this.held.keys().slice(0, this.config.holdFlushBatch)) {
+      const signal = this.held.peek(key)!;
+      this.held.delete(key);
+      if (!this.seen.covers(signal.timestamp, now)) continue;
+      this.stats.released++;
+      this.forward(signal, this.transport.id);
     }
   }
 
+  /**
+   * Send one signal copy to one peer
+   */
+  private sendSignal(peer: PeerId, signal: LearningSignal): void {
+    this.stats.sent++;
+    this.transport.send(peer, { type: 'LEARNING_SIGNAL', from: this.transport.id, ts: nowMs(), signal });
+  }
+
+  /**
+   * Check whether a signal's scope lets it be sent to a peer
+   */
+  mayReceive(signal: LearningSignal, peer: PeerId): boolean {
+    if (signal.scope === 'local') return false;
+
+    const cluster = this.membership?.cluster ?? null;
+    if (cluster === null) return true;
+    if (signal.scope === 'global' && this.membership!.isBridge) return true;
+    return this.membership!.clusterOf(peer) === cluster;
+  }
+
+  /**
+   * Peers to sample from: membership's view, else the transport's
+   */
+  private knownPeers(): PeerId[] {
+    return this.membership?.connectedPeers() ?? this.transport.peers?.() ?? [];
+  }
+
+  /**
+   * Keys of recent signals a peer may receive, newest last
+   */
+  private recentFor(peer: PeerId): string[] {
+    return this.recent.keys().filter(k => this.mayReceive(this.recent.peek(k)!, peer));
+  }
+
+  /**
+   * Track authoring-to-acceptance latency of an accepted signal
+   */
+  private recordLatency(signal: LearningSignal): void {
+    const latency = Math.max(0, nowMs() - signal.timestamp);
+    this.stats.accepted++;
+    this.totalLatencyMs += latency;
+    this.stats.meanLatencyMs = this.totalLatencyMs / this.stats.accepted;
+    this.stats.maxLatencyMs = Math.max(this.stats.maxLatencyMs, latency);
+  }
+
+  /**
+   * Get messages sent per signal handled; flooding approaches the
+   * peer count, gossip the fanout
+   */
+  get amplification(): number {
+    const handled = this.stats.accepted + this.stats.published;
+    return handled === 0 ? 0 : this.stats.sent / handled;
+  }
+
+  /**
+   * Generate dedupe key for a signal: hash of the signed body, so
+   * copies differing only in routing collapse to one key
+   */
+  private signalKey(signal: LearningSignal): string {
+    return bytesToHex(contentHash(signal));
+  }
+
+  /**
+   * Mark a signal as seen; false if the window slid past it meanwhile
+   */
+  private markSeen(key: string, timestamp: number): boolean {
+    return this.seen.add(key, timestamp, nowMs());
+  }
+
+  /**
+   * Check whether a signal is recent enough to be accepted
+   */
+  inWindow(signal: LearningSignal): boolean {
+    return this.seen.covers(signal.timestamp, nowMs());
+  }
+
   /**
    * Check if a signal has been seen
    */
@@ -151,6 +745,13 @@ export class Propagation {
     return this.seen.has(this.signalKey(signal));
   }
 
+  /**
+   * Get dedupe and verification counters
+   */
+  getStats(): PropagationStats {
+    return { ...this.stats };
+  }
+
   /**
    * Get count of seen signals
    */
@@ -165,3 +766,15 @@ export class Propagation {
     this.seen.clear();
   }
 }
+
+/**
+ * Pick up to n distinct items uniformly at random
+ */
+function sample<T>(items: T[], n: number): T[] {
+  const pool = items.slice();
+  for (let i = 0; i < Math.min(n, pool.length); i++) {
+    const j = i + Math.floor(Math.random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, n);
+}
@@ -187,6 +187,15 @@ export class AdmissionController {
     // Keep in knownPeers so they're recognized as returning
   }
 
+  /**
+   * Carry a peer's returning status over to its rotated key
+   */
+  migrate(oldId: PeerId, newId: PeerId): void {
+    if (this.knownPeers.delete(oldId)) {
+      this.knownPeers.add(newId);
+    }
+  }
+
   /**
    * Check if peer is a known returning peer
    */
@@ -1,3 +1,6 @@
 export * from './reputation.js';
 export * from './quarantine.js';
 export * from './admission.js';
+export * from './rotation.js';
+export * from './revocation.js';
+export * from './ratelimit.js';
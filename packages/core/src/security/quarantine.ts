@@ -23,6 +23,7 @@ export interface QuarantineEntry {
 
 export class QuarantineSystem {
   private quarantined = new Map<PeerId, QuarantineEntry>();
+  private offenses = new Map<PeerId, number>();
   private config: SwarmConfig;
   private listeners: Array<(peerId: PeerId, entry: QuarantineEntry | null) => void> = [];
 
@@ -37,8 +38,9 @@ export class QuarantineSystem {
    * Quarantine a peer
    */
   quarantine(peerId: PeerId, reason: DriftReason, now = Date.now()): QuarantineEntry {
-    const existing = this.quarantined.get(peerId);
-    const violations = existing ? existing.violations + 1 : 1;
+    // Offense count survives release so repeat offenders back off
+    const violations = (this.offenses.get(peerId) ?? 0) + 1;
+    this.offenses.set(peerId, violations);
     
     // Exponential backoff: each violation doubles quarantine time
     const duration = this.baseQuarantineDurationMs * Math.pow(2, violations - 1);
@@ -83,6 +85,24 @@ export class QuarantineSystem {
     return existed;
   }
 
+  /**
+   * Move quarantine and offense history to a rotated key,
+   * so rotating does not escape isolation
+   */
+  migrate(oldId: PeerId, newId: PeerId): void {
+    const entry = this.quarantined.get(oldId);
+    if (entry) {
+      this.quarantined.delete(oldId);
+      this.quarantined.set(newId, { ...entry, peerId: newId });
+    }
+
+    const offenses = this.offenses.get(oldId);
+    if (offenses !== undefined) {
+      this.offenses.delete(oldId);
+      this.offenses.set(newId, Math.max(offenses, this.offenses.get(newId) ?? 0));
+    }
+  }
+
   /**
    * Get quarantine entry for a peer
    */
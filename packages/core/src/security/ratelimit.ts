@@ -0,0 +1,69 @@
+/**
+ * Rate Limiting
+ * =============
+ * 
+ * Token buckets keyed by peer. Each bucket refills at a base rate
+ * scaled per call, so callers can grant trusted peers more budget, and
+ * holds up to `burstSeconds` of that rate.
+ */
+
+import { PeerId } from '../types/index.js';
+import { LruCache } from '../util/lru.js';
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  penalized: boolean;    // Already penalized since last within budget
+}
+
+export interface RateDecision {
+  allowed: boolean;
+  penalize: boolean;     // First drop since the peer was last within budget
+}
+
+export class RateLimiter {
+  private buckets: LruCache<PeerId, Bucket>;
+
+  constructor(
+    private ratePerSec: number,
+    private burstSeconds: number,
+    maxTracked = 10_000
+  ) {
+    this.buckets = new LruCache(maxTracked);
+  }
+
+  /**
+   * Spend one token at `scale` times the base rate
+   */
+  take(peerId: PeerId, scale = 1, now = Date.now()): RateDecision {
+    const rate = this.ratePerSec * scale;
+    const capacity = rate * this.burstSeconds;
+
+    let bucket = this.buckets.get(peerId);
+    if (!bucket) {
+      bucket = { tokens: capacity, updatedAt: now, penalized: false };
+      this.buckets.set(peerId, bucket);
+    }
+
+    const elapsed = Math.max(0, now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(capacity, bucket.tokens + elapsed * rate);
+    bucket.updatedAt = now;
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      bucket.penalized = false;
+      return { allowed: true, penalize: false };
+    }
+
+    const penalize = !bucket.penalized;
+    bucket.penalized = true;
+    return { allowed: false, penalize };
+  }
+
+  /**
+   * Tokens a peer has left, without refilling
+   */
+  remaining(peerId: PeerId): number | undefined {
+    return this.buckets.peek(peerId)?.tokens;
+  }
+}
@@ -192,6 +192,27 @@ export class ReputationSystem {
     return base + (max - base) * rep.score;
   }
 
+  /**
+   * Move a peer's history to its rotated key.
+   * Violations already recorded against the new key are kept, so a
+   * rotation cannot launder a bad record.
+   */
+  migrate(oldId: PeerId, newId: PeerId): boolean {
+    const score = this.scores.get(oldId);
+    if (!score) return false;
+
+    const existing = this.scores.get(newId);
+    this.scores.delete(oldId);
+    this.scores.set(newId, {
+      ...score,
+      peerId: newId,
+      score: existing ? Math.min(score.score, existing.score) : score.score,
+      violations: score.violations + (existing?.violations ?? 0),
+      lastUpdated: Date.now(),
+    });
+    return true;
+  }
+
   /**
    * Prune inactive peers
    */
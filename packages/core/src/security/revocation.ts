@@ -0,0 +1,319 @@
+/**
+ * Key Revocation
+ * ==============
+ * 
+ * Key-compromise announcements. A revocation declares that everything a
+ * key signed inside a time range was made by a stolen key. It is signed by
+ * the key itself or by one of its successors (see rotation.ts), and
+ * propagates like a learning signal. Revocations are rate-limited per
+ * sending peer; per key, one whose range an earlier one covers is
+ * refused, one that covers earlier ones replaces them, and at most
+ * `maxRevocationsPerKey` are kept.
+ */
+
+import * as ed from '@noble/ed25519';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import {
+  PeerId,
+  Transport,
+  WireMessage,
+  KeyRevocation,
+  KeyRevocationBody,
+  SIGNAL_ENVELOPE_VERSION,
+  SwarmConfig,
+  DEFAULT_CONFIG,
+} from '../types/index.js';
+import { relaySignal, isRouting } from '../signal.js';
+import { canonicalJson, nowMs } from '../util/hash.js';
+import { ReputationSystem } from './reputation.js';
+import { QuarantineSystem } from './quarantine.js';
+import { KeyRotationManager } from './rotation.js';
+import { RateLimiter } from './ratelimit.js';
+
+export function revocationBody(revocation: KeyRevocationBody): KeyRevocationBody {
+  return {
+    v: revocation.v,
+    revocation_id: revocation.revocation_id,
+    key: revocation.key,
+    revoked_from: revocation.revoked_from,
+    revoked_until: revocation.revoked_until,
+    issued_by: revocation.issued_by,
+    timestamp: revocation.timestamp,
+    reason: revocation.reason,
+  };
+}
+
+export function revocationHash(revocation: KeyRevocationBody): Uint8Array {
+  return sha256(utf8ToBytes(canonicalJson(revocationBody(revocation))));
+}
+
+/**
+ * Build and sign a revocation with the issuer's private key
+ */
+export async function buildKeyRevocation(
+  issuerPrivKeyHex: string,
+  options: {
+    key?: PeerId;
+    from: number;
+    until?: number;
+    reason?: string;
+    ttl?: number;
+  }
+): Promise<KeyRevocation> {
+  const issuer = bytesToHex(await ed.getPublicKeyAsync(hexToBytes(issuerPrivKeyHex)));
+  const key = options.key ?? issuer;
+  const timestamp = nowMs();
+
+  const body: KeyRevocationBody = {
+    v: SIGNAL_ENVELOPE_VERSION,
+    revocation_id: `REV-${key.slice(0, 8)}-${options.from}-${timestamp}`,
+    key,
+    revoked_from: options.from,
+    revoked_until: options.until,
+    issued_by: issuer,
+    timestamp,
+    reason: options.reason,
+  };
+
+  const sig = await ed.signAsync(revocationHash(body), hexToBytes(issuerPrivKeyHex));
+  return {
+    ...revocationBody(body),
+    signature: bytesToHex(sig),
+    routing: { ttl: options.ttl ?? 8, hops: 0, path: [] },
+  };
+}
+
+/**
+ * Verify the issuer's signature on a revocation
+ */
+export async function verifyKeyRevocation(revocation: KeyRevocation): Promise<boolean> {
+  if (revocation.v !== SIGNAL_ENVELOPE_VERSION) return false;
+  if (revocation.revoked_until !== undefined && revocation.revoked_until <= revocation.revoked_from) {
+    return false;
+  }
+  try {
+    return await ed.verifyAsync(
+      hexToBytes(revocation.signature),
+      revocationHash(revocation),
+      hexToBytes(revocation.issued_by)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a revocation covers a timestamp
+ */
+export function revocationCovers(revocation: KeyRevocationBody, ts: number): boolean {
+  return ts >= revocation.revoked_from &&
+    (revocation.revoked_until === undefined || ts < revocation.revoked_until);
+}
+
+/**
+ * Check whether one revocation's range contains another's
+ */
+function rangeContains(outer: KeyRevocationBody, inner: KeyRevocationBody): boolean {
+  return outer.revoked_from <= inner.revoked_from &&
+    (outer.revoked_until === undefined ||
+      (inner.revoked_until !== undefined && inner.revoked_until <= outer.revoked_until));
+}
+
+/**
+ * Check that a revocation has the fields its handlers read
+ */
+export function isKeyRevocation(value: unknown): value is KeyRevocation {
+  if (typeof value !== 'object' || value === null) return false;
+  const r = value as Partial<KeyRevocation>;
+  const text = (s: unknown) => typeof s === 'string';
+  return text(r.revocation_id) && text(r.key) && text(r.issued_by) && text(r.signature) &&
+    (r.reason === undefined || text(r.reason)) &&
+    Number.isFinite(r.revoked_from) && Number.isFinite(r.timestamp) &&
+    (r.revoked_until === undefined || Number.isFinite(r.revoked_until)) &&
+    isRouting(r.routing);
+}
+
+export interface RevocationCallbacks {
+  onRevocation?: (revocation: KeyRevocation, from: PeerId) => void;
+  onRejected?: (revocation: KeyRevocation, from: PeerId, reason: string) => void;
+}
+
+export class RevocationManager {
+  private revocations = new Map<string, KeyRevocation>();
+  private byKey = new Map<PeerId, KeyRevocation[]>();
+  private config: SwarmConfig;
+  private callbacks: RevocationCallbacks = {};
+  private limits: RateLimiter;
+
+  constructor(
+    private transport: Transport,
+    private rotations: KeyRotationManager,
+    private reputation: ReputationSystem,
+    private quarantine: QuarantineSystem,
+    config: Partial<SwarmConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.limits = new RateLimiter(this.config.keyEventRatePerSec, this.config.rateBurstSeconds);
+  }
+
+  /**
+   * Set callbacks
+   */
+  setCallbacks(callbacks: RevocationCallbacks): void {
+    this.callbacks = { ...this.callbacks, ...callbacks };
+  }
+
+  /**
+   * Start listening for revocation messages
+   */
+  start(): void {
+    this.transport.onMessage((m) => this.onWire(m));
+  }
+
+  /**
+   * Publish a locally-built revocation
+   */
+  async publish(revocation: KeyRevocation): Promise<void> {
+    const result = await this.onIncoming(revocation, this.transport.id);
+    if (!result) {
+      throw new Error('Refusing to publish invalid key revocation');
+    }
+  }
+
+  /**
+   * Handle an incoming revocation
+   */
+  async onIncoming(revocation: KeyRevocation, from: PeerId): Promise<KeyRevocation | null> {
+    if (!isKeyRevocation(revocation)) {
+      this.reputation.recordFailure(from);
+      return null; // Nothing trustworthy to report on
+    }
+
+    if (this.revocations.has(revocation.revocation_id)) {
+      return null; // Silent dedupe
+    }
+
+    if (this.quarantine.isQuarantined(from)) {
+      this.callbacks.onRejected?.(revocation, from, 'Sender quarantined');
+      return null;
+    }
+
+    if (from !== this.transport.id && !this.withinRate(revocation, from)) {
+      return null;
+    }
+
+    const ok = await verifyKeyRevocation(revocation);
+    if (!ok) {
+      this.reputation.recordFailure(from);
+      this.callbacks.onRejected?.(revocation, from, 'Invalid revocation signature');
+      return null;
+    }
+
+    if (!this.canRevoke(revocation.issued_by, revocation.key)) {
+      this.reputation.recordFailure(from);
+      this.callbacks.onRejected?.(revocation, from, 'Issuer has no authority over key');
+      return null;
+    }
+
+    if (revocation.routing.ttl <= 0) {
+      this.callbacks.onRejected?.(revocation, from, 'TTL expired');
+      return null;
+    }
+
+    const held = this.byKey.get(revocation.key) ?? [];
+    if (held.some(r => rangeContains(r, revocation))) {
+      this.callbacks.onRejected?.(revocation, from, 'Range already revoked');
+      return null;
+    }
+
+    // A wider revocation replaces the ones it covers
+    const list = held.filter(r => !rangeContains(revocation, r));
+    if (list.length >= this.config.maxRevocationsPerKey) {
+      this.callbacks.onRejected?.(revocation, from, 'Too many revocations for key');
+      return null;
+    }
+    for (const r of held) {
+      if (!list.includes(r)) this.revocations.delete(r.revocation_id);
+    }
+
+    this.revocations.set(revocation.revocation_id, revocation);
+    list.push(revocation);
+    this.byKey.set(revocation.key, list);
+
+    this.forward(from === this.transport.id ? revocation : relaySignal(revocation, this.transport.id));
+    this.callbacks.onRevocation?.(revocation, from);
+    return revocation;
+  }
+
+  /**
+   * Spend a token from the sender's key-event budget, scaled by its
+   * influence; the first drop of an overrun costs reputation
+   */
+  private withinRate(revocation: KeyRevocation, from: PeerId): boolean {
+    const influence = this.reputation.getInfluence(from);
+    const { allowed, penalize } = this.limits.take(from, influence / this.config.newPeerInfluence);
+    if (!allowed && penalize) {
+      this.reputation.recordFailure(from);
+      this.callbacks.onRejected?.(revocation, from, 'Key event rate exceeded');
+    }
+    return allowed;
+  }
+
+  /**
+   * A key may revoke itself; a successor may revoke any of its predecessors
+   */
+  private canRevoke(issuer: PeerId, key: PeerId): boolean {
+    if (issuer === key) return true;
+    const lineage = this.rotations.lineage(key);
+    const keyIdx = lineage.indexOf(key);
+    const issuerIdx = lineage.indexOf(issuer);
+    return issuerIdx > keyIdx;
+  }
+
+  /**
+   * Handle wire messages
+   */
+  private async onWire(m: WireMessage): Promise<void> {
+    if (m.type === 'KEY_REVOCATION') {
+      await this.onIncoming(m.revocation, m.from);
+    }
+  }
+
+  /**
+   * Forward a revocation to peers
+   */
+  private forward(revocation: KeyRevocation): void {
+    if (this.quarantine.isQuarantined(this.transport.id)) {
+      return;
+    }
+
+    this.transport.broadcast({
+      type: 'KEY_REVOCATION',
+      from: this.transport.id,
+      ts: nowMs(),
+      revocation,
+    });
+  }
+
+  /**
+   * Check if something signed by a key at a given time is revoked
+   */
+  isRevoked(key: PeerId, ts: number): boolean {
+    return (this.byKey.get(key) ?? []).some(r => revocationCovers(r, ts));
+  }
+
+  /**
+   * Get revocations for a key
+   */
+  forKey(key: PeerId): KeyRevocation[] {
+    return [...(this.byKey.get(key) ?? [])];
+  }
+
+  /**
+   * Export for audit
+   */
+  export(): KeyRevocation[] {
+    return Array.from(this.revocations.values());
+  }
+}
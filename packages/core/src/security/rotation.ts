@@ -0,0 +1,314 @@
+/**
+ * Key Rotation
+ * ============
+ * 
+ * Identity continuity across Ed25519 key changes. A rotation statement is
+ * signed by the old key (endorsing the successor) and by the new key
+ * (proving possession), then propagates like a learning signal. Accepting
+ * one lets reputation, admission, drift and quarantine state follow the
+ * peer to its new key instead of being thrown away. The old key is
+ * retired from the rotation's timestamp on: anything it signs later is
+ * refused. Rotations are rate-limited per sending peer, and the
+ * statements kept for dedupe and audit are bounded by `maxRotations`.
+ */
+
+import * as ed from '@noble/ed25519';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import {
+  PeerId,
+  Transport,
+  WireMessage,
+  KeyRotation,
+  KeyRotationBody,
+  SIGNAL_ENVELOPE_VERSION,
+  SwarmConfig,
+  DEFAULT_CONFIG,
+} from '../types/index.js';
+import { relaySignal, isRouting } from '../signal.js';
+import { canonicalJson, nowMs } from '../util/hash.js';
+import { ReputationSystem } from './reputation.js';
+import { QuarantineSystem } from './quarantine.js';
+import { RateLimiter } from './ratelimit.js';
+import { LruCache } from '../util/lru.js';
+
+export function rotationBody(rotation: KeyRotationBody): KeyRotationBody {
+  return {
+    v: rotation.v,
+    rotation_id: rotation.rotation_id,
+    old_key: rotation.old_key,
+    new_key: rotation.new_key,
+    timestamp: rotation.timestamp,
+    reason: rotation.reason,
+  };
+}
+
+export function rotationHash(rotation: KeyRotationBody): Uint8Array {
+  return sha256(utf8ToBytes(canonicalJson(rotationBody(rotation))));
+}
+
+/**
+ * Build a rotation statement from the old and new private keys
+ */
+export async function buildKeyRotation(
+  oldPrivKeyHex: string,
+  newPrivKeyHex: string,
+  options: { reason?: string; ttl?: number } = {}
+): Promise<KeyRotation> {
+  const oldKey = bytesToHex(await ed.getPublicKeyAsync(hexToBytes(oldPrivKeyHex)));
+  const newKey = bytesToHex(await ed.getPublicKeyAsync(hexToBytes(newPrivKeyHex)));
+  const timestamp = nowMs();
+
+  const body: KeyRotationBody = {
+    v: SIGNAL_ENVELOPE_VERSION,
+    rotation_id: `ROT-${oldKey.slice(0, 8)}-${newKey.slice(0, 8)}-${timestamp}`,
+    old_key: oldKey,
+    new_key: newKey,
+    timestamp,
+    reason: options.reason,
+  };
+
+  const hash = rotationHash(body);
+  const [oldSig, newSig] = await Promise.all([
+    ed.signAsync(hash, hexToBytes(oldPrivKeyHex)),
+    ed.signAsync(hash, hexToBytes(newPrivKeyHex)),
+  ]);
+
+  return {
+    ...rotationBody(body),
+    old_signature: bytesToHex(oldSig),
+    new_signature: bytesToHex(newSig),
+    routing: { ttl: options.ttl ?? 8, hops: 0, path: [] },
+  };
+}
+
+/**
+ * Verify both signatures on a rotation statement
+ */
+export async function verifyKeyRotation(rotation: KeyRotation): Promise<boolean> {
+  if (rotation.v !== SIGNAL_ENVELOPE_VERSION) return false;
+  if (rotation.old_key === rotation.new_key) return false;
+  const hash = rotationHash(rotation);
+  try {
+    const [oldOk, newOk] = await Promise.all([
+      ed.verifyAsync(hexToBytes(rotation.old_signature), hash, hexToBytes(rotation.old_key)),
+      ed.verifyAsync(hexToBytes(rotation.new_signature), hash, hexToBytes(rotation.new_key)),
+    ]);
+    return oldOk && newOk;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that a rotation statement has the fields its handlers read
+ */
+export function isKeyRotation(value: unknown): value is KeyRotation {
+  if (typeof value !== 'object' || value === null) return false;
+  const r = value as Partial<KeyRotation>;
+  const text = (s: unknown) => typeof s === 'string';
+  return text(r.rotation_id) && text(r.old_key) && text(r.new_key) &&
+    text(r.old_signature) && text(r.new_signature) &&
+    (r.reason === undefined || text(r.reason)) &&
+    Number.isFinite(r.timestamp) && isRouting(r.routing);
+}
+
+export interface KeyRotationCallbacks {
+  onRotation?: (rotation: KeyRotation, from: PeerId) => void;
+  onRejected?: (rotation: KeyRotation, from: PeerId, reason: string) => void;
+}
+
+export class KeyRotationManager {
+  private successors = new Map<PeerId, PeerId>();
+  private predecessors = new Map<PeerId, PeerId>();
+  private rotatedAt = new Map<PeerId, number>();   // Old key to its rotation timestamp
+  private accepted: LruCache<string, KeyRotation>;
+  private config: SwarmConfig;
+  private callbacks: KeyRotationCallbacks = {};
+  private limits: RateLimiter;
+
+  constructor(
+    private transport: Transport,
+    private reputation: ReputationSystem,
+    private quarantine: QuarantineSystem,
+    config: Partial<SwarmConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.accepted = new LruCache(this.config.maxRotations);
+    this.limits = new RateLimiter(this.config.keyEventRatePerSec, this.config.rateBurstSeconds);
+  }
+
+  /**
+   * Set callbacks
+   */
+  setCallbacks(callbacks: KeyRotationCallbacks): void {
+    this.callbacks = { ...this.callbacks, ...callbacks };
+  }
+
+  /**
+   * Start listening for rotation messages
+   */
+  start(): void {
+    this.transport.onMessage((m) => this.onWire(m));
+  }
+
+  /**
+   * Publish a locally-built rotation statement
+   */
+  async publish(rotation: KeyRotation): Promise<void> {
+    const result = await this.onIncoming(rotation, this.transport.id);
+    if (!result) {
+      throw new Error('Refusing to publish invalid key rotation');
+    }
+  }
+
+  /**
+   * Handle an incoming rotation statement
+   */
+  async onIncoming(rotation: KeyRotation, from: PeerId): Promise<KeyRotation | null> {
+    if (!isKeyRotation(rotation)) {
+      this.reputation.recordFailure(from);
+      return null; // Nothing trustworthy to report on
+    }
+
+    // Known by id, or by key pair once the statement has left `accepted`
+    if (this.accepted.has(rotation.rotation_id) || this.successors.get(rotation.old_key) === rotation.new_key) {
+      return null; // Silent dedupe
+    }
+
+    if (this.quarantine.isQuarantined(from)) {
+      this.callbacks.onRejected?.(rotation, from, 'Sender quarantined');
+      return null;
+    }
+
+    if (from !== this.transport.id && !this.withinRate(rotation, from)) {
+      return null;
+    }
+
+    const ok = await verifyKeyRotation(rotation);
+    if (!ok) {
+      this.reputation.recordFailure(from);
+      this.callbacks.onRejected?.(rotation, from, 'Invalid rotation signature');
+      return null;
+    }
+
+    if (rotation.routing.ttl <= 0) {
+      this.callbacks.onRejected?.(rotation, from, 'TTL expired');
+      return null;
+    }
+
+    // A key endorses at most one successor; a second one means the old key leaked
+    const existing = this.successors.get(rotation.old_key);
+    if (existing && existing !== rotation.new_key) {
+      this.callbacks.onRejected?.(rotation, from, `Key already rotated to ${existing}`);
+      return null;
+    }
+
+    if (this.predecessors.has(rotation.new_key) || this.lineage(rotation.old_key).includes(rotation.new_key)) {
+      this.callbacks.onRejected?.(rotation, from, 'New key already has a lineage');
+      return null;
+    }
+
+    this.accepted.set(rotation.rotation_id, rotation);
+    this.successors.set(rotation.old_key, rotation.new_key);
+    this.predecessors.set(rotation.new_key, rotation.old_key);
+    this.rotatedAt.set(rotation.old_key, rotation.timestamp);
+
+    if (from !== this.transport.id) {
+      this.reputation.recordSuccess(from);
+    }
+
+    this.forward(from === this.transport.id ? rotation : relaySignal(rotation, this.transport.id));
+    this.callbacks.onRotation?.(rotation, from);
+    return rotation;
+  }
+
+  /**
+   * Spend a token from the sender's key-event budget, scaled by its
+   * influence; the first drop of an overrun costs reputation
+   */
+  private withinRate(rotation: KeyRotation, from: PeerId): boolean {
+    const influence = this.reputation.getInfluence(from);
+    const { allowed, penalize } = this.limits.take(from, influence / this.config.newPeerInfluence);
+    if (!allowed && penalize) {
+      this.reputation.recordFailure(from);
+      this.callbacks.onRejected?.(rotation, from, 'Key event rate exceeded');
+    }
+    return allowed;
+  }
+
+  /**
+   * Handle wire messages
+   */
+  private async onWire(m: WireMessage): Promise<void> {
+    if (m.type === 'KEY_ROTATION') {
+      await this.onIncoming(m.rotation, m.from);
+    }
+  }
+
+  /**
+   * Forward a rotation statement to peers
+   */
+  private forward(rotation: KeyRotation): void {
+    if (this.quarantine.isQuarantined(this.transport.id)) {
+      return;
+    }
+
+    this.transport.broadcast({
+      type: 'KEY_ROTATION',
+      from: this.transport.id,
+      ts: nowMs(),
+      rotation,
+    });
+  }
+
+  /**
+   * Follow rotations forward to the key currently in use
+   */
+  currentKey(key: PeerId): PeerId {
+    let current = key;
+    const visited = new Set<PeerId>([current]);
+    while (this.successors.has(current)) {
+      current = this.successors.get(current)!;
+      if (visited.has(current)) break;
+      visited.add(current);
+    }
+    return current;
+  }
+
+  /**
+   * Get every key in an identity's history, oldest first
+   */
+  lineage(key: PeerId): PeerId[] {
+    let first = key;
+    const visited = new Set<PeerId>([first]);
+    while (this.predecessors.has(first)) {
+      first = this.predecessors.get(first)!;
+      if (visited.has(first)) break;
+      visited.add(first);
+    }
+
+    const chain = [first];
+    let next = this.successors.get(first);
+    while (next && !chain.includes(next)) {
+      chain.push(next);
+      next = this.successors.get(next);
+    }
+    return chain;
+  }
+
+  /**
+   * Check if a key has been rotated out, or was by time `ts`
+   */
+  isRetired(key: PeerId, ts?: number): boolean {
+    const at = this.rotatedAt.get(key);
+    return at !== undefined && (ts === undefined || ts >= at);
+  }
+
+  /**
+   * Export for audit
+   */
+  export(): KeyRotation[] {
+    return this.accepted.keys().map(id => this.accepted.peek(id)!);
+  }
+}
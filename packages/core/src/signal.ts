@@ -8,30 +8,61 @@
 import * as ed from '@noble/ed25519';
 import { sha256 } from '@noble/hashes/sha256';
 import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
-import { LearningSignal, LearningSignalPayload, SignalType, Scope } from './types/index.js';
+import {
+  LearningSignal,
+  LearningSignalBody,
+  LearningSignalPayload,
+  SignalRouting,
+  HopRecord,
+  SignalType,
+  Scope,
+  PeerId,
+  SIGNAL_ENVELOPE_VERSION,
+} from './types/index.js';
+import { canonicalJson } from './util/hash.js';
+import { HybridClock } from './util/hlc.js';
 
-export function canonicalContent(signal: Omit<LearningSignal, 'signature'>): string {
-  return JSON.stringify(signal);
+/**
+ * Extract the author-signed body, dropping signature and routing metadata
+ */
+export function signedBody(signal: LearningSignalBody): LearningSignalBody {
+  return {
+    v: signal.v,
+    source_id: signal.source_id,
+    signal_id: signal.signal_id,
+    timestamp: signal.timestamp,
+    domain: signal.domain,
+    signal_type: signal.signal_type,
+    payload: signal.payload,
+    scope: signal.scope,
+    prior_signal: signal.prior_signal,
+    hlc: signal.hlc,
+  };
+}
+
+export function canonicalContent(body: LearningSignalBody): string {
+  return canonicalJson(signedBody(body));
 }
 
-export function contentHash(signal: Omit<LearningSignal, 'signature'>): Uint8Array {
-  return sha256(utf8ToBytes(canonicalContent(signal)));
+export function contentHash(body: LearningSignalBody): Uint8Array {
+  return sha256(utf8ToBytes(canonicalContent(body)));
 }
 
 export async function signSignal(
-  unsigned: Omit<LearningSignal, 'signature'>, 
-  privKeyHex: string
+  unsigned: LearningSignalBody, 
+  privKeyHex: string,
+  routing: SignalRouting
 ): Promise<LearningSignal> {
-  const sig = await ed.sign(contentHash(unsigned), hexToBytes(privKeyHex));
-  return { ...unsigned, signature: bytesToHex(sig) };
+  const sig = await ed.signAsync(contentHash(unsigned), hexToBytes(privKeyHex));
+  return { ...signedBody(unsigned), signature: bytesToHex(sig), routing };
 }
 
 export async function verifySignal(signal: LearningSignal): Promise<boolean> {
-  const { signature, ...unsigned } = signal;
+  if (signal.v !== SIGNAL_ENVELOPE_VERSION) return false;
   try {
-    return await ed.verify(
-      hexToBytes(signature), 
-      contentHash(unsigned), 
+    return await ed.verifyAsync(
+      hexToBytes(signal.signature), 
+      contentHash(signal), 
       hexToBytes(signal.source_id)
     );
   } catch {
@@ -39,12 +70,102 @@ export async function verifySignal(signal: LearningSignal): Promise<boolean> {
   }
 }
 
+/**
+ * Verify a batch of signals. Copies sharing a body and signature are
+ * verified once; distinct signatures are checked concurrently.
+ */
+export async function verifySignals(signals: LearningSignal[]): Promise<boolean[]> {
+  const unique = new Map<string, Promise<boolean>>();
+  return Promise.all(signals.map(signal => {
+    const key = `${canonicalContent(signal)}|${signal.signature}`;
+    let result = unique.get(key);
+    if (!result) {
+      result = verifySignal(signal);
+      unique.set(key, result);
+    }
+    return result;
+  }));
+}
+
+/**
+ * Check that routing metadata is well-formed. Routing is outside the
+ * signature, so any relay may have written it.
+ */
+export function isRouting(routing: unknown): routing is SignalRouting {
+  if (typeof routing !== 'object' || routing === null) return false;
+  const r = routing as Partial<SignalRouting>;
+  const count = (n: unknown) => Number.isInteger(n) && (n as number) >= 0;
+  return count(r.ttl) && count(r.hops) &&
+    Array.isArray(r.path) && r.path.every(p => typeof p === 'string');
+}
+
+/**
+ * Produce the copy of a signal a relay forwards: one hop spent, relay appended.
+ * The signed body and signature are untouched.
+ */
+export function relaySignal<T extends { routing: SignalRouting }>(signal: T, relayId: PeerId): T {
+  return {
+    ...signal,
+    routing: {
+      ...signal.routing,
+      ttl: signal.routing.ttl - 1,
+      hops: signal.routing.hops + 1,
+      relay_id: relayId,
+      path: [...signal.routing.path, relayId],
+    },
+  };
+}
+
+function hopHash(signal: LearningSignal, prev: string, hop: Omit<HopRecord, 'sig'>): Uint8Array {
+  return sha256(utf8ToBytes(canonicalJson({
+    content: bytesToHex(contentHash(signal)),
+    prev,
+    relay: hop.relay,
+    ttl: hop.ttl,
+    ts: hop.ts,
+  })));
+}
+
+/**
+ * Append this relay's signed hop record to a signal about to be
+ * forwarded. Signs the ttl the copy actually carries.
+ */
+export async function signHop<T extends LearningSignal>(
+  signal: T,
+  relayId: PeerId,
+  privKeyHex: string,
+  ts = Date.now()
+): Promise<T> {
+  const trail = signal.routing.trail ?? [];
+  const hop = { relay: relayId, ttl: signal.routing.ttl, ts };
+  const prev = trail.length > 0 ? trail[trail.length - 1].sig : signal.signature;
+  const sig = await ed.signAsync(hopHash(signal, prev, hop), hexToBytes(privKeyHex));
+  return { ...signal, routing: { ...signal.routing, trail: [...trail, { ...hop, sig: bytesToHex(sig) }] } };
+}
+
+/**
+ * Verify a signal's hop chain. Returns the index of the first hop whose
+ * signature fails, or -1 if every hop verifies.
+ */
+export async function verifyTrail(signal: LearningSignal): Promise<number> {
+  const trail = signal.routing.trail ?? [];
+  const results = await Promise.all(trail.map(async (hop, i) => {
+    try {
+      const prev = i > 0 ? trail[i - 1].sig : signal.signature;
+      return await ed.verifyAsync(hexToBytes(hop.sig), hopHash(signal, prev, hop), hexToBytes(hop.relay));
+    } catch {
+      return false;
+    }
+  }));
+  return results.indexOf(false);
+}
+
 export async function generateIdentity(): Promise<{ 
   publicKeyHex: string; 
   privateKeyHex: string 
 }> {
   const priv = ed.utils.randomPrivateKey();
-  const pub = await ed.getPublicKey(priv);
+  const pub = await ed.getPublicKeyAsync(priv);
   return { 
     publicKeyHex: bytesToHex(pub), 
     privateKeyHex: bytesToHex(priv) 
@@ -56,14 +177,16 @@ export interface SignalBuilder {
   privateKey: string;
   domain: string;
   counter: number;
+  clock: HybridClock;
 }
 
 export function createSignalBuilder(
   sourceId: string, 
   privateKey: string, 
-  domain: string
+  domain: string,
+  clock = new HybridClock()
 ): SignalBuilder {
-  return { sourceId, privateKey, domain, counter: 0 };
+  return { sourceId, privateKey, domain, counter: 0, clock };
 }
 
 export async function buildSignal(
@@ -76,19 +199,24 @@ export async function buildSignal(
     priorSignal?: string;
   } = {}
 ): Promise<LearningSignal> {
-  const unsigned: Omit<LearningSignal, 'signature'> = {
+  const unsigned: LearningSignalBody = {
+    v: SIGNAL_ENVELOPE_VERSION,
     source_id: builder.sourceId,
-    signal_id: `${builder.sourceId.slice(0, 8)}-${++builder.counter}`,
+    signal_id: `${builder.sourceId.slice(0, 8)}-${builder.domain}-${++builder.counter}`,
     timestamp: Date.now(),
     domain: builder.domain,
     signal_type: options.signalType ?? 'delta',
     payload,
-    ttl: options.ttl ?? 8,
     scope: options.scope ?? 'cluster',
     prior_signal: options.priorSignal,
+    hlc: builder.clock.now(),
   };
 
-  return signSignal(unsigned, builder.privateKey);
+  return signSignal(unsigned, builder.privateKey, {
+    ttl: options.ttl ?? 8,
+    hops: 0,
+    path: [],
+  });
 }
 
-export { LearningSignal, LearningSignalPayload, SignalType, Scope };
+export { LearningSignal, LearningSignalBody, LearningSignalPayload, SignalRouting, HopRecord, SignalType, Scope };
@@ -0,0 +1,302 @@
+/**
+ * Anti-Entropy
+ * ============
+ *
+ * Reconciles signal sets between two peers so a node that was offline
+ * or partitioned recovers what it missed. Signed signals are archived
+ * under their content key, and peers compare Merkle-style summaries of
+ * hex key prefixes: matching ranges are skipped, large differing ranges
+ * are split sixteen ways, and small ones swap key lists so each side
+ * can push the signals the other lacks.
+ *
+ * A sync runs with every connected peer on entering T4 (recontact) and
+ * with one random peer every `syncIntervalMs` while in T0. Inbound sync
+ * messages are rate-limited per peer, and malformed ones are dropped
+ * and count against the sender.
+ */
+
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import {
+  Transport,
+  WireMessage,
+  PeerId,
+  LearningSignal,
+  SyncRange,
+  TState,
+  SwarmConfig,
+  DEFAULT_CONFIG
+} from './types/index.js';
+import { contentHash } from './signal.js';
+import { nowMs } from './util/hash.js';
+import { LruCache } from './util/lru.js';
+import { Propagation } from './propagation.js';
+import { Membership } from './membership.js';
+import { TStateManager } from './authority/tstate.js';
+import { ReputationSystem } from './security/reputation.js';
+import { RateLimiter } from './security/ratelimit.js';
+
+const HEX = '0123456789abcdef';
+const KEY_LENGTH = 64;
+const MAX_RANGES = 256;
+const PREFIX = /^[0-9a-f]{0,64}$/;
+const KEY = /^[0-9a-f]{64}$/;
+
+export interface SyncStats {
+  sessions: number;        // Syncs this node started
+  ranges: number;          // Range summaries sent
+  keys: number;            // Keys sent in leaf exchanges
+  signals: number;         // Signals pushed to peers
+  rateLimited: number;     // Inbound sync messages over a peer's budget
+  malformed: number;       // Inbound sync messages dropped as malformed
+}
+
+/**
+ * Summarize the keys under a prefix; keys must be sorted
+ */
+export function syncRange(prefix: string, keys: string[]): SyncRange {
+  const inRange = keys.filter(k => k.startsWith(prefix));
+  return {
+    prefix,
+    count: inRange.length,
+    hash: bytesToHex(sha256(utf8ToBytes(inRange.join('')))),
+  };
+}
+
+/**
+ * Check that a range summary from a peer is well-formed
+ */
+export function isSyncRange(range: unknown): range is SyncRange {
+  if (typeof range !== 'object' || range === null) return false;
+  const r = range as Partial<SyncRange>;
+  return typeof r.prefix === 'string' && PREFIX.test(r.prefix) &&
+    Number.isInteger(r.count) && (r.count as number) >= 0 &&
+    typeof r.hash === 'string';
+}
+
+export class AntiEntropy {
+  private archive: LruCache<string, LearningSignal>;
+  private lastSync = 0;
+  private stats: SyncStats = { sessions: 0, ranges: 0, keys: 0, signals: 0, rateLimited: 0, malformed: 0 };
+  private config: SwarmConfig;
+  private limits: RateLimiter;
+
+  constructor(
+    private transport: Transport,
+    private propagation: Propagation,
+    private membership: Membership,
+    private tState: TStateManager,
+    config: Partial<SwarmConfig> = {},
+    private reputation?: ReputationSystem
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.archive = new LruCache(this.config.syncArchiveSize);
+    this.limits = new RateLimiter(this.config.syncRatePerSec, this.config.rateBurstSeconds);
+  }
+
+  /**
+   * Start answering syncs and syncing on recontact
+   */
+  start(): void {
+    this.transport.onMessage((m) => this.onWire(m));
+    this.tState.onStateChange((_oldState, newState) => {
+      if (newState === TState.T4) this.syncAll();
+    });
+  }
+
+  /**
+   * Archive a signed signal for later reconciliation
+   */
+  record(signal: LearningSignal): void {
+    if (signal.scope === 'local') return;
+    this.archive.set(bytesToHex(contentHash(signal)), signal);
+  }
+
+  /**
+   * Sync with one random peer once per interval while in T0
+   */
+  tick(now = nowMs()): void {
+    if (this.tState.state !== TState.T0) return;
+    if (now - this.lastSync < this.config.syncIntervalMs) return;
+    this.lastSync = now;
+
+    const peers = this.membership.connectedPeers();
+    if (peers.length === 0) return;
+    this.syncWith(peers[Math.floor(Math.random() * peers.length)]);
+  }
+
+  /**
+   * Start reconciliation with a peer from the whole key space
+   */
+  syncWith(peer: PeerId): void {
+    this.stats.sessions++;
+    this.sendRanges(peer, [syncRange('', this.keysFor(peer))]);
+  }
+
+  /**
+   * Sync with every connected peer
+   */
+  syncAll(): void {
+    for (const peer of this.membership.connectedPeers()) {
+      this.syncWith(peer);
+    }
+  }
+
+  /**
+   * Handle incoming wire message
+   */
+  private onWire(m: WireMessage): void {
+    if (m.type !== 'SYNC_RANGES' && m.type !== 'SYNC_KEYS') return;
+    if (!this.withinRate(m.from)) return;
+
+    if (m.type === 'SYNC_RANGES') {
+      if (!Array.isArray(m.ranges) || !m.ranges.every(isSyncRange)) return this.malformed(m.from);
+      this.onRanges(m.ranges, m.from);
+    } else {
+      const wellFormed = typeof m.prefix === 'string' && PREFIX.test(m.prefix) &&
+        Array.isArray(m.keys) && m.keys.every(k => typeof k === 'string' && KEY.test(k)) &&
+        (m.reply === undefined || typeof m.reply === 'boolean');
+      if (!wellFormed) return this.malformed(m.from);
+      this.onKeys(m.prefix, m.keys, m.from, m.reply ?? false);
+    }
+  }
+
+  /**
+   * Spend a token from a peer's sync budget, scaled by its influence;
+   * the first drop after being within budget costs reputation
+   */
+  private withinRate(peer: PeerId): boolean {
+    const influence = this.reputation?.getInfluence(peer) ?? this.config.newPeerInfluence;
+    const { allowed, penalize } = this.limits.take(peer, influence / this.config.newPeerInfluence);
+    if (!allowed) {
+      this.stats.rateLimited++;
+      if (penalize) this.blame(peer);
+    }
+    return allowed;
+  }
+
+  /**
+   * Drop a malformed sync message and blame its sender
+   */
+  private malformed(peer: PeerId): void {
+    this.stats.malformed++;
+    this.blame(peer);
+  }
+
+  /**
+   * Count an offense against a peer
+   */
+  private blame(peer: PeerId): void {
+    this.reputation?.track(peer);
+    this.reputation?.recordFailure(peer);
+  }
+
+  /**
+   * Compare a peer's range summaries with ours: split differing ranges
+   * that are still large, swap keys for the rest
+   */
+  private onRanges(ranges: SyncRange[], from: PeerId): void {
+    const mine = this.keysFor(from);
+    const next: SyncRange[] = [];
+
+    for (const theirs of ranges.slice(0, MAX_RANGES)) {
+      const ours = syncRange(theirs.prefix, mine);
+      if (ours.hash === theirs.hash) continue;
+
+      const large = Math.max(ours.count, theirs.count) > this.config.syncLeafSize;
+      if (large && theirs.prefix.length < KEY_LENGTH) {
+        const inRange = mine.filter(k => k.startsWith(theirs.prefix));
+        for (const c of HEX) next.push(syncRange(theirs.prefix + c, inRange));
+      } else {
+        this.sendKeys(from, theirs.prefix, mine, false);
+      }
+    }
+
+    if (next.length > 0) this.sendRanges(from, next);
+  }
+
+  /**
+   * Push the signals a peer's leaf lacks, and answer with our own leaf
+   * if the peer holds signals we lack
+   */
+  private onKeys(prefix: string, keys: string[], from: PeerId, reply: boolean): void {
+    const theirs = new Set(keys.slice(0, this.config.syncLeafSize * 4));
+    const mine = this.keysFor(from).filter(k => k.startsWith(prefix));
+
+    for (const key of mine) {
+      if (!theirs.has(key)) this.push(from, this.archive.peek(key)!);
+    }
+
+    const lacking = Array.from(theirs).some(k => k.startsWith(prefix) && !this.archive.has(k));
+    if (!reply && lacking) {
+      this.sendKeys(from, prefix, mine, true);
+    }
+  }
+
+  /**
+   * Archived keys a peer may receive, sorted; signals past the dedupe
+   * window would be rejected, so they are left out
+   */
+  private keysFor(peer: PeerId): string[] {
+    return this.archive.keys()
+      .filter(k => {
+        const signal = this.archive.peek(k)!;
+        return this.propagation.inWindow(signal) && this.propagation.mayReceive(signal, peer);
+      })
+      .sort();
+  }
+
+  /**
+   * Send range summaries to a peer
+   */
+  private sendRanges(peer: PeerId, ranges: SyncRange[]): void {
+    this.stats.ranges += ranges.length;
+    this.transport.send(peer, { type: 'SYNC_RANGES', from: this.transport.id, ts: nowMs(), ranges });
+  }
+
+  /**
+   * Send our keys under a prefix to a peer
+   */
+  private sendKeys(peer: PeerId, prefix: string, keys: string[], reply: boolean): void {
+    const inRange = keys.filter(k => k.startsWith(prefix));
+    this.stats.keys += inRange.length;
+    this.transport.send(peer, {
+      type: 'SYNC_KEYS',
+      from: this.transport.id,
+      ts: nowMs(),
+      prefix,
+      keys: inRange,
+      reply: reply || undefined,
+    });
+  }
+
+  /**
+   * Send an archived signal directly; a spent TTL is topped up to one
+   * hop so the receiver's TTL gate admits it
+   */
+  private push(peer: PeerId, signal: LearningSignal): void {
+    // We did not relay it along its trail, so the trail would not end with us
+    const { trail: _trail, ...routing } = signal.routing;
+    this.stats.signals++;
+    this.transport.send(peer, {
+      type: 'LEARNING_SIGNAL',
+      from: this.transport.id,
+      ts: nowMs(),
+      signal: { ...signal, routing: { ...routing, ttl: Math.max(signal.routing.ttl, 1) } },
+    });
+  }
+
+  /**
+   * Get reconciliation counters
+   */
+  getStats(): SyncStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Get count of archived signals
+   */
+  get archivedCount(): number {
+    return this.archive.size;
+  }
+}
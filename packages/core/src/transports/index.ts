@@ -1,3 +1,5 @@
 export * from './memory.js';
 export * from './broadcast.js';
 export * from './logged.js';
+export * from './signed.js';
+export * from './priority.js';
@@ -36,7 +36,7 @@ export class LoggedTransport implements Transport {
     // Wrap handler to log incoming messages
     const loggingHandler = (msg: WireMessage) => {
       this.audit.append('IN', { msg }, msg.from);
-      handler(msg);
+      return handler(msg);
     };
     
     this.handlers.push(loggingHandler);
@@ -11,6 +11,7 @@ type Handler = (msg: WireMessage) => void;
 
 export class MemoryBus {
   private transports = new Map<PeerId, MemoryTransport>();
+  private links = new Map<PeerId, Set<PeerId>>();
 
   register(transport: MemoryTransport): void {
     this.transports.set(transport.id, transport);
@@ -20,16 +21,35 @@ export class MemoryBus {
     this.transports.delete(id);
   }
 
+  /**
+   * Add a bidirectional link. Once a peer has any link, it only
+   * reaches linked peers; unlinked peers stay fully meshed.
+   */
+  link(a: PeerId, b: PeerId): void {
+    if (!this.links.has(a)) this.links.set(a, new Set());
+    if (!this.links.has(b)) this.links.set(b, new Set());
+    this.links.get(a)!.add(b);
+    this.links.get(b)!.add(a);
+  }
+
+  /**
+   * Check whether a message from one peer can reach another
+   */
+  reachable(from: PeerId, to: PeerId): boolean {
+    const linked = this.links.get(from);
+    return !linked || linked.has(to);
+  }
+
   send(from: PeerId, to: PeerId, msg: WireMessage): void {
     const target = this.transports.get(to);
-    if (target && target.id !== from) {
+    if (target && target.id !== from && this.reachable(from, to)) {
       target.deliver(msg);
     }
   }
 
   broadcast(from: PeerId, msg: WireMessage): void {
     for (const [id, transport] of this.transports) {
-      if (id !== from) {
+      if (id !== from && this.reachable(from, id)) {
         transport.deliver(msg);
       }
     }
@@ -69,7 +89,7 @@ export class MemoryTransport implements Transport {
   }
 
   peers(): PeerId[] {
-    return this.bus.peers().filter(p => p !== this.id);
+    return this.bus.peers().filter(p => p !== this.id && this.bus.reachable(this.id, p));
   }
 
   disconnect(): void {
@@ -0,0 +1,159 @@
+/**
+ * Priority Inbox
+ * ==============
+ *
+ * Inbound wire messages wait here for a verification slot. Control-plane
+ * traffic (liveness, votes, revocations) is always taken first, so it
+ * cannot queue behind bulk learning traffic. When the inbox is full,
+ * the lowest lane is shed first. While the T-state forbids learning
+ * propagation, the learning lane is also held to a smaller cap.
+ */
+
+import { SwarmConfig, DEFAULT_CONFIG, WireMessage, WirePayload } from '../types/index.js';
+import { TStateManager } from '../authority/tstate.js';
+
+export type Lane = 'control' | 'coordination' | 'learning';
+
+/**
+ * Lanes in the order they are drained
+ */
+export const LANES: Lane[] = ['control', 'coordination', 'learning'];
+
+const LANE_OF: Record<WirePayload['type'], Lane> = {
+  HELLO: 'control',
+  HEARTBEAT: 'control',
+  ARBITRATION_PROPOSAL: 'control',
+  ARBITRATION_VOTE: 'control',
+  ATTESTATION_REQ: 'control',
+  ATTESTATION_SIG: 'control',
+  AUTHORITY_REQUEST: 'control',
+  AUTHORITY_GRANT: 'control',
+  AUTHORITY_DENY: 'control',
+  AUTHORITY_REVOKE: 'control',
+  QUARANTINE_NOTICE: 'control',
+  KEY_ROTATION: 'control',
+  KEY_REVOCATION: 'control',
+  PEER_LIST: 'coordination',
+  CHECKPOINT_REQ: 'coordination',
+  CHECKPOINT_RESP: 'coordination',
+  EVIDENCE_REQ: 'coordination',
+  EVIDENCE_RESP: 'coordination',
+  CLAIM_REQ: 'coordination',
+  CLAIM_DEFINITION: 'coordination',
+  PATTERN_BUNDLE: 'coordination',
+  LEARNING_SIGNAL: 'learning',
+  GOSSIP_DIGEST: 'learning',
+  GOSSIP_PULL: 'learning',
+  SYNC_RANGES: 'learning',
+  SYNC_KEYS: 'learning',
+};
+
+/**
+ * Lane a message is queued in
+ */
+export function laneOf(msg: WireMessage): Lane {
+  return LANE_OF[msg.type] ?? 'learning';
+}
+
+export class PriorityInbox {
+  private lanes: Record<Lane, WireMessage[]> = { control: [], coordination: [], learning: [] };
+  private config: SwarmConfig;
+  private shed: Record<Lane, number> = { control: 0, coordination: 0, learning: 0 };
+
+  constructor(
+    private tState?: TStateManager,
+    config: Partial<SwarmConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Messages verified at once by the transport draining this inbox
+   */
+  get concurrency(): number {
+    return this.config.maxConcurrentVerify;
+  }
+
+  /**
+   * Messages waiting across all lanes
+   */
+  get size(): number {
+    return LANES.reduce((n, lane) => n + this.lanes[lane].length, 0);
+  }
+
+  /**
+   * Queue a message, shedding lower lanes to make room. Returns false
+   * if the message itself was shed.
+   */
+  push(msg: WireMessage): boolean {
+    const lane = laneOf(msg);
+
+    if (lane === 'learning' && this.learningPaused() &&
+        this.lanes.learning.length >= this.config.degradedLearningQueue) {
+      this.shed.learning++;
+      return false;
+    }
+
+    if (this.size >= this.config.maxWireQueue && !this.evictBelow(lane)) {
+      this.shed[lane]++;
+      return false;
+    }
+
+    this.lanes[lane].push(msg);
+    return true;
+  }
+
+  /**
+   * Take the oldest message from the highest non-empty lane
+   */
+  next(): WireMessage | undefined {
+    if (this.learningPaused()) this.trimLearning();
+    for (const lane of LANES) {
+      const msg = this.lanes[lane].shift();
+      if (msg) return msg;
+    }
+    return undefined;
+  }
+
+  /**
+   * Get statistics
+   */
+  getStats(): { queued: Record<Lane, number>; shed: Record<Lane, number> } {
+    return {
+      queued: {
+        control: this.lanes.control.length,
+        coordination: this.lanes.coordination.length,
+        learning: this.lanes.learning.length,
+      },
+      shed: { ...this.shed },
+    };
+  }
+
+  private learningPaused(): boolean {
+    return this.tState !== undefined && !this.tState.canPropagateLearning();
+  }
+
+  /**
+   * Drop the oldest message of the lowest lane below `lane`
+   */
+  private evictBelow(lane: Lane): boolean {
+    for (let i = LANES.length - 1; LANES[i] !== lane; i--) {
+      if (this.lanes[LANES[i]].shift()) {
+        this.shed[LANES[i]]++;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Shed learning backlog queued before the T-state degraded
+   */
+  private trimLearning(): void {
+    const excess = this.lanes.learning.length - this.config.degradedLearningQueue;
+    if (excess > 0) {
+      this.lanes.learning.splice(0, excess);
+      this.shed.learning += excess;
+    }
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Signed Transport
+ * ================
+ * 
+ * Wrapper that signs every outbound wire message with the node's
+ * Ed25519 key and drops inbound messages whose signature does not
+ * verify against their `from` field. With a clock attached, outbound
+ * messages are stamped with its HLC and verified inbound stamps are
+ * merged into it. With an inbox attached, inbound messages wait there
+ * and are verified a few at a time, highest priority first. A handler
+ * that throws or rejects on a message costs the sender reputation and
+ * never reaches the caller. Messages the caller already knows to be
+ * duplicates are dropped before any signature work.
+ */
+
+import * as ed from '@noble/ed25519';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { Transport, WireMessage, PeerId } from '../types/index.js';
+import { ReputationSystem } from '../security/reputation.js';
+import { canonicalJson } from '../util/hash.js';
+import { HybridClock } from '../util/hlc.js';
+import { PriorityInbox } from './priority.js';
+
+type Handler = (msg: WireMessage) => void;
+
+export type SignedWireMessage = WireMessage & { sig: string };
+
+export interface SignedTransportCallbacks {
+  onRejected?: (msg: WireMessage, reason: string) => void;
+  onShed?: (msg: WireMessage) => void;
+  isDuplicate?: (msg: WireMessage) => boolean;   // Checked before verification; true drops the message
+}
+
+export function wireContentHash(msg: WireMessage): Uint8Array {
+  const { sig: _sig, ...unsigned } = msg as SignedWireMessage;
+  return sha256(utf8ToBytes(canonicalJson(unsigned)));
+}
+
+export async function signWire<T extends WireMessage>(msg: T, privKeyHex: string): Promise<T & { sig: string }> {
+  const sig = await ed.signAsync(wireContentHash(msg), hexToBytes(privKeyHex));
+  return { ...msg, sig: bytesToHex(sig) };
+}
+
+export async function verifyWire(msg: WireMessage): Promise<boolean> {
+  const sig = (msg as Partial<SignedWireMessage>).sig;
+  if (typeof sig !== 'string') return false;
+  try {
+    return await ed.verifyAsync(hexToBytes(sig), wireContentHash(msg), hexToBytes(msg.from));
+  } catch {
+    return false;
+  }
+}
+
+export class SignedTransport implements Transport {
+  private handlers: Handler[] = [];
+  private callbacks: SignedTransportCallbacks = {};
+  private outbound: Promise<void> = Promise.resolve();
+  private rejected = 0;
+  private failed = 0;
+  private skipped = 0;
+  private verifying = 0;
+
+  constructor(
+    private inner: Transport,
+    private privateKey: string,
+    private reputation?: ReputationSystem,
+    private clock?: HybridClock,
+    private inbox?: PriorityInbox
+  ) {
+    this.inner.onMessage((m) => this.receive(m));
+  }
+
+  get id(): PeerId {
+    return this.inner.id;
+  }
+
+  /**
+   * Set callbacks
+   */
+  setCallbacks(callbacks: SignedTransportCallbacks): void {
+    this.callbacks = { ...this.callbacks, ...callbacks };
+  }
+
+  send(to: PeerId, msg: WireMessage): void {
+    this.enqueue(msg, (signed) => this.inner.send(to, signed));
+  }
+
+  broadcast(msg: WireMessage): void {
+    this.enqueue(msg, (signed) => this.inner.broadcast(signed));
+  }
+
+  onMessage(handler: Handler): void {
+    this.handlers.push(handler);
+  }
+
+  connect?(peer: PeerId): void {
+    this.inner.connect?.(peer);
+  }
+
+  peers?(): PeerId[] {
+    return this.inner.peers?.() ?? [];
+  }
+
+  /**
+   * Count of inbound messages dropped for failing verification
+   */
+  get rejectedCount(): number {
+    return this.rejected;
+  }
+
+  /**
+   * Count of verified messages a handler failed on
+   */
+  get failedCount(): number {
+    return this.failed;
+  }
+
+  /**
+   * Count of inbound duplicates dropped without verification
+   */
+  get skippedCount(): number {
+    return this.skipped;
+  }
+
+  /**
+   * Sign and hand off in call order, so signing latency cannot reorder messages
+   */
+  private enqueue(msg: WireMessage, deliver: (signed: WireMessage) => void): void {
+    if (this.clock) msg = { ...msg, hlc: this.clock.now() };
+    this.outbound = this.outbound
+      .then(() => signWire(msg, this.privateKey))
+      .then(deliver)
+      .catch(() => {
+        // A message we cannot sign is never sent
+      });
+  }
+
+  /**
+   * Queue an inbound message, or verify it at once without an inbox
+   */
+  private receive(msg: WireMessage): void {
+    if (!this.inbox) {
+      this.onWire(msg).catch(() => this.fail(msg));
+      return;
+    }
+    if (!this.inbox.push(msg)) {
+      this.callbacks.onShed?.(msg);
+      return;
+    }
+    this.drain();
+  }
+
+  /**
+   * Fill free verification slots from the inbox
+   */
+  private drain(): void {
+    let msg: WireMessage | undefined;
+    while (this.verifying < this.inbox!.concurrency && (msg = this.inbox!.next())) {
+      this.verifying++;
+      const taken = msg;
+      this.onWire(taken)
+        .catch(() => this.fail(taken))
+        .finally(() => {
+          this.verifying--;
+          this.drain();
+        });
+    }
+  }
+
+  /**
+   * Verify an inbound message before any handler sees it
+   */
+  private async onWire(msg: WireMessage): Promise<void> {
+    if (this.callbacks.isDuplicate?.(msg)) {
+      this.skipped++;
+      return;
+    }
+
+    const ok = await verifyWire(msg);
+    if (!ok) {
+      this.rejected++;
+      this.reputation?.recordFailure(msg.from);
+      this.callbacks.onRejected?.(msg, 'Invalid wire signature');
+      return;
+    }
+
+    if (msg.hlc) this.clock?.receive(msg.hlc);
+
+    for (const h of this.handlers) {
+      this.dispatch(h, msg);
+    }
+  }
+
+  /**
+   * Run one handler, containing both synchronous throws and rejections
+   */
+  private dispatch(handler: Handler, msg: WireMessage): void {
+    try {
+      // Async handlers are typed void but may still hand back a promise
+      const pending: unknown = handler(msg);
+      if (pending instanceof Promise) pending.catch(() => this.fail(msg));
+    } catch {
+      this.fail(msg);
+    }
+  }
+
+  /**
+   * Drop a message a handler could not process and blame its sender
+   */
+  private fail(msg: WireMessage): void {
+    this.failed++;
+    this.reputation?.recordFailure(msg.from);
+    this.callbacks.onRejected?.(msg, 'Handler failed');
+  }
+}
+
+/**
+ * Wrap a transport with message signing and verification
+ */
+export function withSigning(
+  transport: Transport,
+  privateKey: string,
+  reputation?: ReputationSystem,
+  clock?: HybridClock,
+  inbox?: PriorityInbox
+): SignedTransport {
+  return new SignedTransport(transport, privateKey, reputation, clock, inbox);
+}
@@ -76,6 +76,7 @@ export enum DriftReason {
   CONFIDENCE_DECAY = 'confidence_decay',
   STALE_COMMS = 'stale_comms',
   QUARANTINED = 'quarantined',
+  CLOCK_SKEW = 'clock_skew',
 }
 
 export interface DriftEvent {
@@ -101,17 +102,82 @@ export interface LearningSignalPayload {
   evidence_hash?: string;
 }
 
-export interface LearningSignal {
+/**
+ * Domain used when a signal or belief does not name one
+ */
+export const DEFAULT_DOMAIN = 'default';
+
+/**
+ * Hybrid logical clock stamp: wall-clock ms plus a logical counter
+ * that orders events sharing a wall time. See `util/hlc.ts`.
+ */
+export interface Hlc {
+  wall: number;
+  logical: number;
+}
+
+/**
+ * Current learning signal envelope version.
+ * v1 signed the whole signal including ttl, so relays invalidated it.
+ */
+export const SIGNAL_ENVELOPE_VERSION = 2;
+
+/**
+ * Current attestation statement version, kept apart from the signal
+ * envelope's. It starts at 2, the envelope version statements first
+ * carried, so earlier certificates still verify.
+ */
+export const ATTESTATION_VERSION = 2;
+
+/**
+ * The author-signed portion of a learning signal.
+ * Any change to these fields invalidates the signature.
+ */
+export interface LearningSignalBody {
+  v: number;
   source_id: string;
   signal_id: string;
   timestamp: number;
   domain: string;
   signal_type: SignalType;
   payload: LearningSignalPayload;
-  ttl: number;
   scope: Scope;
-  signature: string;
   prior_signal?: string;
+  hlc?: Hlc;               // Causal order; falls back to timestamp when absent
+}
+
+/**
+ * Hop-mutable routing metadata. Not covered by the author's signature;
+ * rewritten by every relay that forwards the signal.
+ */
+export interface SignalRouting {
+  ttl: number;             // Remaining hops (decremented on forward)
+  hops: number;            // Hops travelled so far
+  relay_id?: PeerId;       // Last relay that forwarded the signal
+  path: PeerId[];          // Relays traversed, oldest first
+  trail?: HopRecord[];     // Signed hops, when every relay so far signed one
+}
+
+/**
+ * A relay's signed statement that it forwarded a signal with a given
+ * ttl at a given time. Each record signs over the previous one, so the
+ * trail cannot be reordered or cut in the middle.
+ */
+export interface HopRecord {
+  relay: PeerId;
+  ttl: number;             // TTL the relay forwarded with
+  ts: number;              // When the relay forwarded it
+  sig: string;             // Over signal, previous hop, relay, ttl and ts
+}
+
+/**
+ * Relay misbehaviour a signed trail can prove
+ */
+export type RelayFault = 'tampered' | 'dropped' | 'delayed';
+
+export interface LearningSignal extends LearningSignalBody {
+  signature: string;
+  routing: SignalRouting;
 }
 
 export interface BeliefState {
@@ -119,8 +185,109 @@ export interface BeliefState {
   stance: Stance;
   confidence: number;
   updatedAt: number;
+  hlc?: Hlc;               // Order of the winning signal
   lastSignalId?: string;
   lastSourceId?: string;
+  domain?: string;
+  lineage?: string[];      // Signals a correction replaced, ending with itself
+  evidenceHash?: string;   // Verified evidence backing the winning signal
+  deprecated?: boolean;    // Retired from conflict, drift and pattern consideration
+  contributions?: SourceContribution[];   // Each source's latest stance, as aggregated
+  expired?: boolean;       // Decayed past beliefExpiryConfidence; reads as unknown
+}
+
+/**
+ * One source's say in a belief: its latest stance on the claim and the
+ * influence it was weighted with
+ */
+export interface SourceContribution {
+  sourceId: PeerId;
+  signalId: string;
+  stance: Stance;
+  confidence: number;      // After evidence weighting
+  weight: number;          // Source influence at aggregation time
+  hlc: Hlc;
+  timestamp: number;       // Signed timestamp, which decay ages from
+}
+
+// =============================================================================
+// KEY ROTATION
+// =============================================================================
+
+/**
+ * Signed body of a key rotation statement: the old key endorses the new one.
+ */
+export interface KeyRotationBody {
+  v: number;
+  rotation_id: string;
+  old_key: PeerId;
+  new_key: PeerId;
+  timestamp: number;
+  reason?: string;
+}
+
+/**
+ * A key rotation statement. Signed by the old key (endorsement) and the
+ * new key (proof of possession); propagates with routing like a signal.
+ */
+export interface KeyRotation extends KeyRotationBody {
+  old_signature: string;
+  new_signature: string;
+  routing: SignalRouting;
+}
+
+/**
+ * Signed body of a revocation: everything `key` signed in
+ * [revoked_from, revoked_until) is declared compromised.
+ */
+export interface KeyRevocationBody {
+  v: number;
+  revocation_id: string;
+  key: PeerId;
+  revoked_from: number;
+  revoked_until?: number;  // Open-ended when absent
+  issued_by: PeerId;       // The key itself or one of its successors
+  timestamp: number;
+  reason?: string;
+}
+
+export interface KeyRevocation extends KeyRevocationBody {
+  signature: string;
+  routing: SignalRouting;
+}
+
+// =============================================================================
+// CLAIMS
+// =============================================================================
+
+export type ClaimRelationKind = 'implies' | 'contradicts' | 'refines';
+
+/**
+ * A claim's relation to another claim in its domain. A claim that
+ * refines a broader one also implies it.
+ */
+export interface ClaimRelation {
+  kind: ClaimRelationKind;
+  target: string;          // Claim hash of the related claim
+}
+
+/**
+ * What a claim hash means. The hash is derived from this content.
+ */
+export interface ClaimDefinition {
+  text: string;            // What the claim asserts
+  domain: string;
+  schema?: Record<string, unknown>;   // Shape of the claim's subject, application-defined
+  relations?: ClaimRelation[];
+}
+
+/**
+ * A relation from one claim to another, declared by either definition
+ */
+export interface ClaimLink {
+  from: string;
+  kind: ClaimRelationKind;
+  to: string;
 }
 
 // =============================================================================
@@ -133,6 +300,71 @@ export interface ConflictRecord {
   counts: Record<string, number>;
   stances: Map<string, { stance: Stance; confidence: number; ts: number }>;
   conflictScore: number;
+  domain?: string;
+  needsReview?: boolean;   // Depended on observations later revoked
+}
+
+/**
+ * Disagreement across two related claims: peers holding one claim true
+ * against peers holding a stance the relation rules out on the other
+ */
+export interface ClaimContradiction {
+  claimHash: string;
+  relatedHash: string;
+  kind: ClaimRelationKind;
+  score: number;           // Binary entropy of the two sides, 0-1
+  domain?: string;
+}
+
+/**
+ * Local beliefs that cannot all hold under the declared claim relations.
+ * `claims` and `links` form a minimal inconsistent subset: the held
+ * claim, the relations followed from it, and the claim it clashes with.
+ */
+export interface ConsistencyViolation {
+  id: string;              // Stable across checks while the violation persists
+  claims: string[];        // Claim hashes, from the held claim to the clashing one
+  links: ClaimLink[];
+  domain: string;
+  detectedAt: number;
+}
+
+// =============================================================================
+// ATTESTATION
+// =============================================================================
+
+/**
+ * A resolved arbitration as the tallying node counted it. Co-signed by
+ * voters, it proves the swarm's conclusion to parties outside the swarm.
+ */
+export interface AttestationStatement {
+  v: number;
+  proposal_id: string;
+  claim_hash: string;
+  options: string[];
+  winner: string;
+  votes: Array<{ voter: PeerId; option: string; weight: number }>;   // Sorted by voter
+  threshold: number;       // Fraction of total vote weight that must co-sign
+  issued_by: PeerId;
+  issued_at: number;
+}
+
+export interface AttestationCertificate {
+  statement: AttestationStatement;
+  signatures: Array<{ signer: PeerId; signature: string }>;
+}
+
+// =============================================================================
+// ANTI-ENTROPY
+// =============================================================================
+
+/**
+ * Summary of the signal keys sharing a hex prefix
+ */
+export interface SyncRange {
+  prefix: string;          // Hex prefix of content keys; '' is the whole set
+  count: number;
+  hash: string;            // sha256 of the sorted keys, concatenated
 }
 
 // =============================================================================
@@ -203,7 +435,9 @@ export type LogKind =
   | 'PATTERN_GENERATED'
   | 'PATTERN_ADOPTED'
   | 'CONFLICT_DETECTED'
-  | 'ROLLBACK';
+  | 'ROLLBACK'
+  | 'KEY_ROTATION'
+  | 'KEY_REVOCATION';
 
 export interface LogEntry {
   i: number;
@@ -213,27 +447,44 @@ export interface LogEntry {
   data: unknown;
   prev: string | null;
   hash: string;
+  hlc?: Hlc;               // Logging node's clock, for merging logs across nodes
 }
 
 // =============================================================================
 // WIRE MESSAGES
 // =============================================================================
 
-export type WireMessage =
-  | { type: 'HELLO'; from: PeerId; to?: PeerId; ts: number; knownPeers?: PeerId[]; tState?: TState }
-  | { type: 'HEARTBEAT'; from: PeerId; ts: number; tState?: TState; confidence?: number }
+export type WireMessage = WirePayload & {
+  hlc?: Hlc;               // Sender's clock, stamped by SignedTransport
+};
+
+export type WirePayload =
+  | { type: 'HELLO'; from: PeerId; to?: PeerId; ts: number; knownPeers?: PeerId[]; tState?: TState; cluster?: string; bridge?: boolean }
+  | { type: 'HEARTBEAT'; from: PeerId; ts: number; tState?: TState; confidence?: number; cluster?: string; bridge?: boolean }
   | { type: 'PEER_LIST'; from: PeerId; ts: number; peers: PeerId[] }
   | { type: 'LEARNING_SIGNAL'; from: PeerId; ts: number; signal: LearningSignal }
+  | { type: 'GOSSIP_DIGEST'; from: PeerId; ts: number; keys: string[] }
+  | { type: 'GOSSIP_PULL'; from: PeerId; ts: number; keys: string[] }
+  | { type: 'SYNC_RANGES'; from: PeerId; ts: number; ranges: SyncRange[] }
+  | { type: 'SYNC_KEYS'; from: PeerId; ts: number; prefix: string; keys: string[]; reply?: boolean }
   | { type: 'CHECKPOINT_REQ'; from: PeerId; ts: number; claimHash: string }
   | { type: 'CHECKPOINT_RESP'; from: PeerId; ts: number; claimHash: string; meaning: string; stance: string; confidence: number }
   | { type: 'ARBITRATION_PROPOSAL'; from: PeerId; ts: number; proposalId: string; claimHash: string; options: string[] }
-  | { type: 'ARBITRATION_VOTE'; from: PeerId; ts: number; proposalId: string; option: string; weight: number }
+  | { type: 'ARBITRATION_VOTE'; from: PeerId; ts: number; proposalId: string; option: string; weight: number; evidenceHash?: string }
   | { type: 'AUTHORITY_REQUEST'; from: PeerId; ts: number; requestId: string; scope: string; reason: string }
   | { type: 'AUTHORITY_GRANT'; from: PeerId; ts: number; requestId: string; window: AuthorityWindow }
   | { type: 'AUTHORITY_DENY'; from: PeerId; ts: number; requestId: string; reason: string }
   | { type: 'AUTHORITY_REVOKE'; from: PeerId; ts: number; windowId: string; reason: DriftReason }
   | { type: 'PATTERN_BUNDLE'; from: PeerId; ts: number; bundle: PatternBundle }
-  | { type: 'QUARANTINE_NOTICE'; from: PeerId; ts: number; targetPeer: PeerId; reason: DriftReason };
+  | { type: 'QUARANTINE_NOTICE'; from: PeerId; ts: number; targetPeer: PeerId; reason: DriftReason }
+  | { type: 'KEY_ROTATION'; from: PeerId; ts: number; rotation: KeyRotation }
+  | { type: 'KEY_REVOCATION'; from: PeerId; ts: number; revocation: KeyRevocation }
+  | { type: 'EVIDENCE_REQ'; from: PeerId; ts: number; hash: string }
+  | { type: 'EVIDENCE_RESP'; from: PeerId; ts: number; hash: string; data: string }
+  | { type: 'CLAIM_REQ'; from: PeerId; ts: number; hash: string }
+  | { type: 'CLAIM_DEFINITION'; from: PeerId; ts: number; hash: string; definition: ClaimDefinition }
+  | { type: 'ATTESTATION_REQ'; from: PeerId; ts: number; statement: AttestationStatement }
+  | { type: 'ATTESTATION_SIG'; from: PeerId; ts: number; proposalId: string; signature: string };
 
 // =============================================================================
 // TRANSPORT
@@ -266,10 +517,63 @@ export interface SwarmConfig {
   heartbeatIntervalMs: number;
   peerTimeoutMs: number;
   maxPeers: number;
+  clusterId: string | null;   // null: no cluster boundaries
+  bridge: boolean;            // Carries global signals across clusters
+  clusterMembers: Record<PeerId, string>;   // Cluster of each peer this node routes by; unlisted peers are foreign
+  bridgePeers: PeerId[];      // Peers trusted to carry global signals across clusters
+  maxClockSkewMs: number;     // Furthest a timestamp may run ahead of local time
   
   // Propagation
   defaultTtl: number;
   maxSeenSignals: number;
+  dedupeWindowMs: number;     // Signals older than this are rejected
+  dedupeEpochs: number;       // Buckets the window expires in
+  sourceRatePerSec: number;   // New signals per author, at new-peer influence
+  relayRatePerSec: number;    // Signal copies per relaying peer, at new-peer influence
+  rateBurstSeconds: number;   // Bucket depth, in seconds of rate
+  maxInboundQueue: number;    // Signals awaiting verification before shedding
+  verifyCacheSize: number;
+  propagationMode: 'flood' | 'gossip';
+  gossipFanout: number;       // Peers sampled per forward in gossip mode
+  gossipIntervalMs: number;   // Digest exchange period
+  gossipDigestSize: number;   // Recent signals held and advertised
+  degradedTtl: number;        // Hop limit on signals forwarded in T1
+  holdQueueSize: number;      // Local signals held while forwarding is paused
+  holdFlushBatch: number;     // Held signals released per tick after recontact
+  signRelayHops: boolean;     // Append a signed hop record when relaying
+  maxHopDelayMs: number;      // Longest a relay may hold a signal before forwarding
+
+  // Anti-entropy
+  syncIntervalMs: number;     // Period between syncs while in T0
+  syncArchiveSize: number;    // Signed signals kept for reconciliation
+  syncLeafSize: number;       // Ranges at or below this size swap keys
+  syncRatePerSec: number;     // Inbound sync messages per peer, at new-peer influence
+
+  // Inbound dispatch
+  maxConcurrentVerify: number;    // Wire signatures verified at once
+  maxWireQueue: number;           // Inbound messages awaiting verification
+  degradedLearningQueue: number;  // Learning-lane cap while learning propagation is paused
+
+  // Evidence
+  evidenceWeight: number;
+  evidenceTimeoutMs: number;
+  maxEvidenceBytes: number;
+  evidenceStoreSize: number;      // Verified artifacts kept, least recently used evicted first
+
+  // Claims
+  claimTimeoutMs: number;         // Wait for a requested claim definition
+  maxClaimBytes: number;          // Largest canonical claim definition accepted
+  maxClaimDefinitions: number;    // Claim definitions kept
+  claimRatePerSec: number;        // Inbound claim definitions, and claim requests, per peer at new-peer influence
+  inconsistencyAction: 'none' | 'checkpoint' | 'arbitrate';   // Response to a new consistency violation
+
+  // Key events
+  keyEventRatePerSec: number;     // Inbound rotations and revocations per peer, at new-peer influence
+  maxRevocationsPerKey: number;   // Revocations kept per key once covered ranges are merged
+  maxRotations: number;           // Rotation statements kept for dedupe and audit
+
+  // Attestation
+  attestationThreshold: number;
   
   // Reputation
   minReputationForVote: number;
@@ -278,8 +582,31 @@ export interface SwarmConfig {
   // Pattern bundles
   patternBundleThreshold: number;
   minSuccessRateForBundle: number;
+
+  // Beliefs
+  beliefAggregation: 'last-writer-wins' | 'reputation-weighted' | 'log-odds';
+  ledgerMaxSources: number;       // Assertions kept per claim
+  ledgerMaxClaims: number;        // Claims kept in the assertion ledger and belief store
+  deprecationQuorum: number;      // Influence share beyond which non-authors may retire a claim
+  beliefDecay: 'none' | 'half-life' | 'step';
+  beliefHalfLifeMs: number;       // Age at which half-life decay halves confidence
+  beliefMaxAgeMs: number;         // Age at which step decay expires a belief
+  beliefExpiryConfidence: number; // Decayed confidence below which a belief expires
+
+  // Domains
+  domainPolicies: Record<string, DomainPolicy>;
+  subscribedDomains: string[] | null;   // null accepts every domain
+  maxReputationDomains: number;         // Domains whose author reputation is kept
 }
 
+/**
+ * Per-domain overrides of node-wide config
+ */
+export type DomainPolicy = Partial<Pick<SwarmConfig,
+  'beliefDivergenceThreshold' | 'defaultTtl' | 'newPeerInfluence' |
+  'beliefDecay' | 'beliefHalfLifeMs' | 'beliefMaxAgeMs' | 'beliefExpiryConfidence'
+>>;
+
 export const DEFAULT_CONFIG: SwarmConfig = {
   baseAuthorityDurationMs: 60_000,
   holdDriftThresholdMs: 3_000,
@@ -289,10 +616,62 @@ export const DEFAULT_CONFIG: SwarmConfig = {
   heartbeatIntervalMs: 1_000,
   peerTimeoutMs: 4_000,
   maxPeers: 32,
+  clusterId: null,
+  bridge: false,
+  clusterMembers: {},
+  bridgePeers: [],
+  maxClockSkewMs: 30_000,
   defaultTtl: 8,
   maxSeenSignals: 50_000,
+  dedupeWindowMs: 3_600_000,
+  dedupeEpochs: 12,
+  sourceRatePerSec: 10,
+  relayRatePerSec: 100,
+  rateBurstSeconds: 10,
+  maxInboundQueue: 1_000,
+  verifyCacheSize: 10_000,
+  propagationMode: 'flood',
+  gossipFanout: 4,
+  gossipIntervalMs: 1_000,
+  gossipDigestSize: 256,
+  degradedTtl: 2,
+  holdQueueSize: 1_000,
+  holdFlushBatch: 50,
+  signRelayHops: false,
+  maxHopDelayMs: 5_000,
+  syncIntervalMs: 30_000,
+  syncArchiveSize: 10_000,
+  syncLeafSize: 32,
+  syncRatePerSec: 10,
+  maxConcurrentVerify: 16,
+  maxWireQueue: 10_000,
+  degradedLearningQueue: 256,
+  evidenceWeight: 1.5,
+  evidenceTimeoutMs: 2_000,
+  maxEvidenceBytes: 1_048_576,
+  evidenceStoreSize: 512,
+  claimTimeoutMs: 2_000,
+  maxClaimBytes: 4_096,
+  maxClaimDefinitions: 10_000,
+  claimRatePerSec: 5,
+  keyEventRatePerSec: 1,
+  maxRevocationsPerKey: 16,
+  maxRotations: 10_000,
+  inconsistencyAction: 'checkpoint',
+  attestationThreshold: 0.67,
   minReputationForVote: 0.2,
   newPeerInfluence: 0.1,
   patternBundleThreshold: 5,
   minSuccessRateForBundle: 0.6,
+  beliefAggregation: 'last-writer-wins',
+  ledgerMaxSources: 256,
+  ledgerMaxClaims: 10_000,
+  deprecationQuorum: 0.5,
+  beliefDecay: 'none',
+  beliefHalfLifeMs: 86_400_000,
+  beliefMaxAgeMs: 604_800_000,
+  beliefExpiryConfidence: 0.05,
+  domainPolicies: {},
+  subscribedDomains: null,
+  maxReputationDomains: 64,
 };
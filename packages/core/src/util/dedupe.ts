@@ -0,0 +1,126 @@
+/**
+ * Dedupe Window
+ * =============
+ *
+ * Time-windowed, memory-bounded record of seen keys. Keys are bucketed
+ * by the epoch of the timestamp they carry, and whole epochs expire at
+ * once as the window slides, so eviction is O(1) and follows age.
+ *
+ * `horizon` is the oldest timestamp still covered: every key added with
+ * a timestamp at or after it is remembered. Callers reject anything
+ * older, which makes replay detection exact inside the window. When the
+ * capacity is exceeded the oldest epoch is dropped early and the
+ * horizon moves up with it, shrinking the window rather than breaking
+ * the guarantee.
+ */
+
+export class DedupeWindow {
+  private epochs = new Map<number, Set<string>>();
+  private count = 0;
+  private floor = -Infinity;   // Lowest epoch still covered after early drops
+  private epochMs: number;
+
+  constructor(
+    private windowMs: number,
+    private epochCount: number,
+    private capacity: number
+  ) {
+    this.epochMs = Math.max(1, Math.ceil(windowMs / epochCount));
+  }
+
+  /**
+   * Oldest timestamp covered by the window
+   */
+  horizon(now: number): number {
+    const oldest = Math.max(this.epochOf(now) - this.epochCount + 1, this.floor);
+    return oldest * this.epochMs;
+  }
+
+  /**
+   * Check whether a timestamp is inside the window
+   */
+  covers(timestamp: number, now: number): boolean {
+    return timestamp >= this.horizon(now);
+  }
+
+  /**
+   * Check for a key in any live epoch
+   */
+  has(key: string): boolean {
+    for (const keys of this.epochs.values()) {
+      if (keys.has(key)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Record a key under its timestamp's epoch; returns false if the
+   * timestamp is outside the window
+   */
+  add(key: string, timestamp: number, now: number): boolean {
+    this.expire(now);
+    if (!this.covers(timestamp, now)) return false;
+
+    const epoch = this.epochOf(timestamp);
+    let keys = this.epochs.get(epoch);
+    if (!keys) {
+      keys = new Set();
+      this.epochs.set(epoch, keys);
+    }
+    if (!keys.has(key)) {
+      keys.add(key);
+      this.count++;
+    }
+
+    while (this.count > this.capacity && this.epochs.size > 0) {
+      this.dropOldest();
+    }
+    return true;
+  }
+
+  /**
+   * Drop epochs that have slid out of the window
+   */
+  expire(now: number): void {
+    const oldest = this.epochOf(this.horizon(now));
+    for (const [epoch, keys] of this.epochs) {
+      if (epoch < oldest) {
+        this.count -= keys.size;
+        this.epochs.delete(epoch);
+      }
+    }
+  }
+
+  /**
+   * Get count of remembered keys
+   */
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Forget everything and reset the horizon
+   */
+  clear(): void {
+    this.epochs.clear();
+    this.count = 0;
+    this.floor = -Infinity;
+  }
+
+  /**
+   * Drop the oldest epoch ahead of schedule and raise the floor past it
+   */
+  private dropOldest(): void {
+    const oldest = Math.min(...this.epochs.keys());
+    this.count -= this.epochs.get(oldest)!.size;
+    this.epochs.delete(oldest);
+    this.floor = Math.max(this.floor, oldest + 1);
+  }
+
+  /**
+   * Epoch index containing a timestamp
+   */
+  private epochOf(timestamp: number): number {
+    return Math.floor(timestamp / this.epochMs);
+  }
+}
@@ -1,8 +1,58 @@
 import { sha256 } from '@noble/hashes/sha256';
 import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
 
+/**
+ * Canonical JSON in the style of RFC 8785 (JCS).
+ * 
+ * Object keys are sorted by UTF-16 code units, undefined properties are
+ * omitted, and numbers and strings use ECMAScript serialization, so the
+ * output does not depend on key insertion order. Non-finite numbers and
+ * undefined array elements have no canonical form and throw.
+ */
+export function canonicalJson(value: unknown): string {
+  if (value !== null && typeof value === 'object' && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    value = (value as { toJSON: () => unknown }).toJSON();
+  }
+
+  if (value === null) return 'null';
+
+  switch (typeof value) {
+    case 'boolean':
+      return value ? 'true' : 'false';
+    case 'string':
+      return JSON.stringify(value);
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new TypeError(`Cannot canonicalize non-finite number: ${value}`);
+      }
+      return JSON.stringify(value);
+    case 'object':
+      break;
+    default:
+      throw new TypeError(`Cannot canonicalize value of type ${typeof value}`);
+  }
+
+  if (Array.isArray(value)) {
+    return '[' + value.map((v) => {
+      if (v === undefined) {
+        throw new TypeError('Cannot canonicalize undefined array element');
+      }
+      return canonicalJson(v);
+    }).join(',') + ']';
+  }
+
+  const obj = value as Record<string, unknown>;
+  const parts: string[] = [];
+  for (const key of Object.keys(obj).sort()) {
+    const v = obj[key];
+    if (v === undefined || typeof v === 'function') continue;
+    parts.push(JSON.stringify(key) + ':' + canonicalJson(v));
+  }
+  return '{' + parts.join(',') + '}';
+}
+
 export function hashJson(obj: unknown): string {
-  const s = JSON.stringify(obj);
+  const s = canonicalJson(obj);
   return bytesToHex(sha256(utf8ToBytes(s)));
 }
 
@@ -0,0 +1,78 @@
+/**
+ * Hybrid Logical Clock
+ * ====================
+ *
+ * Wall-clock milliseconds paired with a logical counter. Every local
+ * event and every received stamp advances the clock, so an event that
+ * causally follows another always carries a larger stamp, even when
+ * physical clocks disagree. Stamps stay close to wall time, which keeps
+ * them meaningful to humans and bounded-skew checks.
+ */
+
+import { Hlc } from '../types/index.js';
+
+/**
+ * Order two stamps: negative if a is earlier, positive if later
+ */
+export function compareHlc(a: Hlc, b: Hlc): number {
+  return a.wall !== b.wall ? a.wall - b.wall : a.logical - b.logical;
+}
+
+/**
+ * Check that a value is a well-formed stamp
+ */
+export function isHlc(value: unknown): value is Hlc {
+  const h = value as Hlc;
+  return typeof h === 'object' && h !== null &&
+    Number.isFinite(h.wall) && Number.isInteger(h.logical) && h.logical >= 0;
+}
+
+export class HybridClock {
+  private last: Hlc = { wall: 0, logical: 0 };
+
+  constructor(
+    private maxDriftMs = Infinity,
+    private physical: () => number = Date.now
+  ) {}
+
+  /**
+   * Stamp a local or send event
+   */
+  now(): Hlc {
+    const pt = this.physical();
+    this.last = pt > this.last.wall
+      ? { wall: pt, logical: 0 }
+      : { wall: this.last.wall, logical: this.last.logical + 1 };
+    return { ...this.last };
+  }
+
+  /**
+   * Merge a received stamp. Stamps more than `maxDriftMs` ahead of local
+   * time are ignored, so one bad clock cannot drag ours forward; returns
+   * whether the stamp was merged.
+   */
+  receive(remote: Hlc): boolean {
+    const pt = this.physical();
+    if (!isHlc(remote) || remote.wall - pt > this.maxDriftMs) return false;
+
+    const wall = Math.max(this.last.wall, remote.wall, pt);
+    let logical = 0;
+    if (wall === this.last.wall && wall === remote.wall) {
+      logical = Math.max(this.last.logical, remote.logical) + 1;
+    } else if (wall === this.last.wall) {
+      logical = this.last.logical + 1;
+    } else if (wall === remote.wall) {
+      logical = remote.logical + 1;
+    }
+
+    this.last = { wall, logical };
+    return true;
+  }
+
+  /**
+   * Latest stamp issued or merged, without advancing
+   */
+  peek(): Hlc {
+    return { ...this.last };
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * LRU Cache
+ * =========
+ *
+ * Bounded map that evicts the least recently used entry when full.
+ * Relies on Map preserving insertion order.
+ */
+
+export class LruCache<K, V> {
+  private entries = new Map<K, V>();
+
+  constructor(private capacity: number) {}
+
+  /**
+   * Get a value and mark it most recently used
+   */
+  get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value === undefined) return undefined;
+
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  /**
+   * Insert or refresh a value, evicting the oldest entry when full
+   */
+  set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    if (this.entries.size > this.capacity) {
+      const oldest = this.entries.keys().next().value as K;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Check for a key without refreshing it
+   */
+  has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  /**
+   * Get a value without refreshing it
+   */
+  peek(key: K): V | undefined {
+    return this.entries.get(key);
+  }
+
+  /**
+   * Remove an entry
+   */
+  delete(key: K): boolean {
+    return this.entries.delete(key);
+  }
+
+  /**
+   * Keys from least to most recently used
+   */
+  keys(): K[] {
+    return Array.from(this.entries.keys());
+  }
+
+  /**
+   * Get count of cached entries
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Clear all entries
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -5,16 +5,88 @@
  * Comprehensive tests covering all major scenarios.
  */
 
+import { readFileSync } from 'fs';
+import * as ed from '@noble/ed25519';
 import {
   SwarmNode,
   MemoryBus,
   MemoryTransport,
   createMemorySwarm,
   generateIdentity,
+  verifySignal,
+  signWire,
+  verifyWire,
+  canonicalJson,
+  hashJson,
+  signSignal,
+  canonicalContent,
+  LearningSignalBody,
+  buildKeyRotation,
+  verifyKeyRotation,
+  buildKeyRevocation,
+  verifyKeyRevocation,
+  ConflictAccumulator,
+  BeliefStore,
+  createSignalBuilder,
+  buildSignal,
+  why,
+  Propagation,
+  ReputationSystem,
+  QuarantineSystem,
+  EvidenceStore,
+  evidenceHash,
+  Arbitration,
+  verifyCertificate,
+  LearningSignal,
   TState,
   DriftReason,
+  DriftDetector,
+  Membership,
+  TStateManager,
+  AntiEntropy,
+  syncRange,
+  SwarmConfig,
+  DedupeWindow,
+  HybridClock,
+  compareHlc,
+  mergeTimelines,
+  RateLimiter,
+  PriorityInbox,
+  DEFAULT_CONFIG,
+  signHop,
+  aggregationStrategy,
+  BeliefLedger,
+  decayFactor,
+  claimHash,
+  ClaimRegistry,
+  ClaimDefinition,
+  ClaimLink,
+  CheckpointResponse,
+  checkConsistency,
+  BeliefState,
+  SignedTransport,
+  WireMessage,
+  KeyRotation,
+  KeyRevocation,
+  AttestationStatement,
+  AttestationCertificate,
+  attestationHash,
+  beliefKey,
 } from '../src/index.js';
 
+/**
+ * Memory swarm whose transport ids are the nodes' Ed25519 public keys,
+ * so locally published signals verify against their source_id.
+ */
+async function createKeyedSwarm(count: number) {
+  const bus = new MemoryBus();
+  const identities = await Promise.all(
+    Array(count).fill(0).map(() => generateIdentity())
+  );
+  const transports = identities.map(id => new MemoryTransport(id.publicKeyHex, bus));
+  return { bus, transports, identities };
+}
+
 describe('Signal Signing and Verification', () => {
   it('should generate valid identity', async () => {
     const { publicKeyHex, privateKeyHex } = await generateIdentity();
@@ -165,8 +237,7 @@ describe('Quarantine System', () => {
 
 describe('Belief Store', () => {
   it('should apply signals and track history', async () => {
-    const { transports } = createMemorySwarm(2);
-    const identity = await generateIdentity();
+    const { transports, identities: [identity] } = await createKeyedSwarm(2);
     
     const node = new SwarmNode(transports[0], identity.privateKeyHex);
     
@@ -182,6 +253,122 @@ describe('Belief Store', () => {
     expect(history).toBeDefined();
     expect(history!.entries.length).toBeGreaterThan(0);
   });
+
+  it('should supersede a prior signal from the same author on correction', async () => {
+    const [alice, bob] = await Promise.all([generateIdentity(), generateIdentity()]);
+    const fromAlice = createSignalBuilder(alice.publicKeyHex, alice.privateKeyHex, 'default');
+    const fromBob = createSignalBuilder(bob.publicKeyHex, bob.privateKeyHex, 'default');
+
+    const original = await buildSignal(fromAlice, { claim_hash: 'c', direction: 'strengthen', confidence: 0.9 });
+    const correction = await buildSignal(
+      fromAlice,
+      { claim_hash: 'c', direction: 'weaken', confidence: 0.3 },
+      { signalType: 'correction', priorSignal: original.signal_id }
+    );
+    const foreign = await buildSignal(
+      fromBob,
+      { claim_hash: 'c', direction: 'retract', confidence: 0.5 },
+      { signalType: 'correction', priorSignal: original.signal_id }
+    );
+
+    // Correction arriving before its prior still wins
+    const store = new BeliefStore();
+    store.apply(correction);
+    store.apply(original);
+
+    const belief = store.get('c')!;
+    expect(belief.stance).toBe('weaken');
+    expect(belief.lineage).toEqual([original.signal_id, correction.signal_id]);
+    expect(store.getHistory('c')!.entries.map(e => e.signalId)).toEqual([correction.signal_id]);
+    expect(why(store, 'c')!.lineage).toEqual([original.signal_id, correction.signal_id]);
+
+    // Another author cannot supersede Alice's signal
+    const other = new BeliefStore();
+    other.apply(original);
+    other.apply(foreign);
+    expect(other.getHistory('c')!.entries.map(e => e.signalId)).toContain(original.signal_id);
+  });
+
+  it('should retire deprecated claims from conflict, drift and patterns', async () => {
+    const { transports, identities } = await createKeyedSwarm(2);
+    const nodes = identities.map((id, i) => new SwarmNode(transports[i], id.privateKeyHex));
+    nodes.forEach(n => n.start());
+    const [author, peer] = nodes;
+
+    await author.publishBelief('old-claim', 'strengthen', 0.8);
+    await waitFor(() => peer.conflicts.get('old-claim') !== undefined);
+
+    await author.deprecateClaim('old-claim');
+    await waitFor(() => peer.beliefs.get('old-claim')?.deprecated === true);
+
+    expect(peer.conflicts.get('old-claim')).toBeUndefined();
+    expect(peer.beliefs.getConsensus().has('old-claim')).toBe(false);
+    expect(peer.beliefs.active().map(b => b.claimHash)).not.toContain('old-claim');
+    expect(why(peer.beliefs, 'old-claim')!.deprecated).toBe(true);
+
+    // A newer delta reinstates the claim
+    await author.publishBelief('old-claim', 'weaken', 0.6);
+    await waitFor(() => peer.beliefs.get('old-claim')?.stance === 'weaken');
+    expect(peer.beliefs.get('old-claim')!.deprecated).toBeUndefined();
+  });
+
+  it('should leave a conflict intact when a third party deprecates the claim', async () => {
+    const { transports, identities } = await createKeyedSwarm(4);
+    const nodes = identities.map((id, i) => new SwarmNode(transports[i], id.privateKeyHex));
+    nodes.forEach(n => n.start());
+    const [author, rival, stranger, observer] = nodes;
+
+    await author.publishBelief('disputed', 'strengthen', 0.8);
+    await waitFor(() => observer.beliefs.get('disputed') !== undefined);
+    await rival.publishBelief('disputed', 'weaken', 0.8);
+    await waitFor(() => observer.conflicts.get('disputed')?.stances.size === 2);
+
+    const deprecation = await stranger.deprecateClaim('disputed');
+    await waitFor(() => observer.beliefs.findSignal(deprecation.signal_id, stranger.id) !== undefined);
+
+    expect(observer.beliefs.get('disputed')!.deprecated).toBeUndefined();
+    expect([...observer.conflicts.get('disputed')!.stances.keys()].sort()).toEqual([author.id, rival.id].sort());
+    expect(observer.beliefs.getConsensus().has('disputed')).toBe(true);
+  });
+
+  it('should let non-authors retire a claim only with an influence quorum', async () => {
+    const ids = await Promise.all([generateIdentity(), generateIdentity(), generateIdentity()]);
+    const [a, b, c] = ids.map(id => createSignalBuilder(id.publicKeyHex, id.privateKeyHex, 'default'));
+    const store = new BeliefStore();
+
+    const first = await buildSignal(a, { claim_hash: 'q', direction: 'strengthen', confidence: 0.8 });
+    store.apply(first);
+    store.apply(await buildSignal(b, { claim_hash: 'q', direction: 'weaken', confidence: 0.6 }));
+    expect(store.authorOf('q')).toBe(ids[0].publicKeyHex);
+
+    // Ids are only unique per source: a colliding id from another source still counts
+    const colliding = await buildSignal(c, { claim_hash: 'q', direction: 'weaken', confidence: 0.5 });
+    store.apply({ ...colliding, signal_id: first.signal_id });
+    expect(store.ledger.sources('q')).toHaveLength(3);
+
+    // One of three withdraws only its own assertion
+    store.apply(await buildSignal(c, { claim_hash: 'q', direction: 'retract', confidence: 0 }, { signalType: 'deprecation' }));
+    expect(store.get('q')!.deprecated).toBeUndefined();
+    expect(store.ledger.sources('q').map(s => s.sourceId).sort()).toEqual([ids[0], ids[1]].map(i => i.publicKeyHex).sort());
+
+    // Two of three is a quorum
+    store.apply(await buildSignal(b, { claim_hash: 'q', direction: 'retract', confidence: 0 }, { signalType: 'deprecation' }));
+    expect(store.get('q')!.deprecated).toBe(true);
+  });
+
+  it('should refuse to correct another node\'s signal', async () => {
+    const { transports, identities } = await createKeyedSwarm(2);
+    const nodes = identities.map((id, i) => new SwarmNode(transports[i], id.privateKeyHex));
+    nodes.forEach(n => n.start());
+
+    const signal = await nodes[0].publishBelief('mine', 'strengthen', 0.7);
+    await waitFor(() => nodes[1].beliefs.get('mine') !== undefined);
+
+    await expect(nodes[1].correctSignal(signal.signal_id, 'weaken', 0.2)).rejects.toThrow();
+    const correction = await nodes[0].correctSignal(signal.signal_id, 'weaken', 0.2);
+    await waitFor(() => nodes[1].beliefs.get('mine')?.stance === 'weaken');
+    expect(nodes[1].beliefs.get('mine')!.lineage).toEqual([signal.signal_id, correction.signal_id]);
+  });
 });
 
 describe('Conflict Detection', () => {
@@ -224,22 +411,19 @@ describe('Drift Detection', () => {
   });
 
   it('should detect belief divergence', async () => {
-    const { transports } = createMemorySwarm(2);
-    const identity = await generateIdentity();
-    
-    const node = new SwarmNode(transports[0], identity.privateKeyHex, {
-      beliefDivergenceThreshold: 0.5,
-    });
+    // The peer's assertions come from the ledger, here a fixed reader
+    const drift = new DriftDetector({ beliefDivergenceThreshold: 0.5 }, (peerId) =>
+      peerId === 'peer-1' ? [{ claimHash: 'claim-1', stance: 'strengthen' as const, confidence: 0.9, timestamp: Date.now() }] : []
+    );
     
-    node.drift.track('peer-1');
-    node.drift.updateBelief('peer-1', 'claim-1', 'strengthen', 0.9);
+    drift.track('peer-1');
     
     // Consensus says weaken
     const consensus = new Map([
       ['claim-1', { stance: 'weaken' as const, confidence: 0.9 }],
     ]);
     
-    const events = node.drift.check(consensus, Date.now());
+    const events = drift.check(consensus, Date.now());
     
     expect(events.length).toBe(1);
     expect(events[0].reason).toBe(DriftReason.BELIEF_DIVERGENCE);
@@ -248,8 +432,7 @@ describe('Drift Detection', () => {
 
 describe('Audit Log', () => {
   it('should maintain hash chain integrity', async () => {
-    const { transports } = createMemorySwarm(2);
-    const identity = await generateIdentity();
+    const { transports, identities: [identity] } = await createKeyedSwarm(2);
     
     const node = new SwarmNode(transports[0], identity.privateKeyHex);
     node.start();
@@ -262,8 +445,7 @@ describe('Audit Log', () => {
   });
 
   it('should trace provenance for claims', async () => {
-    const { transports } = createMemorySwarm(2);
-    const identity = await generateIdentity();
+    const { transports, identities: [identity] } = await createKeyedSwarm(2);
     
     const node = new SwarmNode(transports[0], identity.privateKeyHex);
     node.start();
@@ -278,12 +460,7 @@ describe('Audit Log', () => {
 
 describe('Full Swarm Scenario', () => {
   it('should coordinate beliefs across nodes', async () => {
-    const { transports } = createMemorySwarm(3);
-    const identities = await Promise.all([
-      generateIdentity(),
-      generateIdentity(),
-      generateIdentity(),
-    ]);
+    const { transports, identities } = await createKeyedSwarm(3);
     
     const nodes = identities.map((id, i) => 
       new SwarmNode(transports[i], id.privateKeyHex)
@@ -367,3 +544,2141 @@ describe('Sybil Resistance', () => {
     expect(establishedInfluence).toBeGreaterThan(0.1);
   });
 });
+
+async function waitFor(cond: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!cond()) {
+    if (Date.now() - start > timeoutMs) throw new Error('waitFor timed out');
+    await new Promise(r => setTimeout(r, 10));
+  }
+}
+
+async function createLine(count: number, config = {}): Promise<SwarmNode[]> {
+  const { bus, transports, identities } = await createKeyedSwarm(count);
+  for (let i = 0; i < count - 1; i++) {
+    bus.link(transports[i].id, transports[i + 1].id);
+  }
+
+  const nodes = identities.map((id, i) =>
+    new SwarmNode(transports[i], id.privateKeyHex, config)
+  );
+  nodes.forEach(n => n.start());
+  return nodes;
+}
+
+describe('Multi-hop Propagation', () => {
+  it('should relay a signal across a 6-node line topology', async () => {
+    const nodes = await createLine(6);
+    const received: LearningSignal[] = [];
+    nodes[5].setCallbacks({ onSignalReceived: (signal) => received.push(signal) });
+
+    await nodes[0].publishBelief('line-claim', 'strengthen', 0.8);
+    await waitFor(() => received.length > 0);
+
+    for (const node of nodes) {
+      expect(node.beliefs.get('line-claim')?.stance).toBe('strengthen');
+    }
+
+    const signal = received[0];
+    expect(await verifySignal(signal)).toBe(true);
+    expect(signal.routing.hops).toBe(4);
+    expect(signal.routing.path).toEqual(nodes.slice(1, 5).map(n => n.id));
+    expect(signal.routing.relay_id).toBe(nodes[4].id);
+  });
+
+  it('should stop relaying when ttl is spent', async () => {
+    const nodes = await createLine(6, { defaultTtl: 3 });
+
+    await nodes[0].publishBelief('short-claim', 'weaken', 0.6);
+    await waitFor(() => nodes[3].beliefs.get('short-claim') !== undefined);
+    await new Promise(r => setTimeout(r, 100));
+
+    expect(nodes[4].beliefs.get('short-claim')).toBeUndefined();
+    expect(nodes[5].beliefs.get('short-claim')).toBeUndefined();
+  });
+
+  it('should keep the signature valid when routing changes but not the body', async () => {
+    const nodes = await createLine(2);
+    const signal = await nodes[0].publishBelief('tamper-claim', 'strengthen', 0.7);
+
+    const rerouted = { ...signal, routing: { ttl: 1, hops: 7, path: ['x'], relay_id: 'x' } };
+    expect(await verifySignal(rerouted)).toBe(true);
+
+    const tampered = { ...signal, payload: { ...signal.payload, confidence: 0.99 } };
+    expect(await verifySignal(tampered)).toBe(false);
+
+    const legacy = { ...signal, v: 1 };
+    expect(await verifySignal(legacy)).toBe(false);
+  });
+
+  it('should reject signals with missing or malformed routing', async () => {
+    const { transports, identities } = await createKeyedSwarm(2);
+    const node = new SwarmNode(transports[1], identities[1].privateKeyHex);
+    const author = identities[0].publicKeyHex;
+    const signal = await buildSignal(
+      createSignalBuilder(author, identities[0].privateKeyHex, 'default'),
+      { claim_hash: 'routed', direction: 'strengthen', confidence: 0.5 }
+    );
+    const rejected: string[] = [];
+    node.propagation.setCallbacks({ onRejected: (_s, _f, reason) => rejected.push(reason) });
+
+    const { routing: _routing, ...unrouted } = signal;
+    const malformed = [
+      unrouted,
+      { ...signal, routing: null },
+      { ...signal, routing: { ...signal.routing, ttl: 'x' } },
+      { ...signal, routing: { ...signal.routing, ttl: 2.5 } },
+      { ...signal, routing: { ...signal.routing, path: 'a' } },
+    ] as unknown as LearningSignal[];
+    for (const copy of malformed) {
+      expect(await node.propagation.onIncoming(copy, author)).toBeNull();
+    }
+    expect(rejected).toEqual(Array(malformed.length).fill('Malformed signal'));
+  });
+});
+
+describe('Wire Authentication', () => {
+  it('should deliver signed messages and drop forged ones', async () => {
+    const { bus, transports, identities } = await createKeyedSwarm(2);
+    const victim = await generateIdentity();
+    const mallory = new MemoryTransport('mallory', bus);
+
+    const node = new SwarmNode(transports[0], identities[0].privateKeyHex);
+    const peer = new SwarmNode(transports[1], identities[1].privateKeyHex);
+    node.start();
+    node.reputation.track(victim.publicKeyHex);
+    const before = node.reputation.getReputation(victim.publicKeyHex)!.accuracy;
+
+    // Forged liveness for a peer that never spoke
+    mallory.broadcast({ type: 'HEARTBEAT', from: victim.publicKeyHex, ts: Date.now() });
+
+    peer.start();
+    await waitFor(() => node.membership.getPeer(peer.id) !== undefined);
+
+    expect(node.membership.getPeer(victim.publicKeyHex)).toBeUndefined();
+    expect(node.wire.rejectedCount).toBe(1);
+    expect(node.reputation.getReputation(victim.publicKeyHex)!.accuracy).toBeLessThan(before);
+  });
+
+  it('should reject a signed message whose fields were altered', async () => {
+    const identity = await generateIdentity();
+    const signed = await signWire(
+      { type: 'ARBITRATION_VOTE', from: identity.publicKeyHex, ts: 1, proposalId: 'p', option: 'weaken', weight: 0.1 },
+      identity.privateKeyHex
+    );
+
+    expect(await verifyWire(signed)).toBe(true);
+    expect(await verifyWire({ ...signed, weight: 1.0 })).toBe(false);
+  });
+
+  it('should contain handlers that throw on a signed malformed message', async () => {
+    const { bus, transports, identities } = await createKeyedSwarm(1);
+    const mallory = await generateIdentity();
+    const wire = new MemoryTransport(mallory.publicKeyHex, bus);
+
+    const node = new SwarmNode(transports[0], identities[0].privateKeyHex);
+    node.start();
+    node.reputation.track(mallory.publicKeyHex);
+    const before = node.reputation.getReputation(mallory.publicKeyHex)!.accuracy;
+    const rejected: string[] = [];
+    node.wire.setCallbacks({ onRejected: (_m, reason) => rejected.push(reason) });
+
+    // Validly signed, but membership cannot iterate the peer list
+    wire.broadcast(await signWire(
+      { type: 'PEER_LIST', from: mallory.publicKeyHex, ts: Date.now(), peers: null as unknown as string[] },
+      mallory.privateKeyHex
+    ));
+    await waitFor(() => node.wire.failedCount === 1);
+
+    // The node keeps processing later messages
+    wire.broadcast(await signWire(
+      { type: 'HEARTBEAT', from: mallory.publicKeyHex, ts: Date.now(), confidence: 0.4 },
+      mallory.privateKeyHex
+    ));
+    await waitFor(() => node.membership.getPeer(mallory.publicKeyHex)?.confidence === 0.4);
+
+    expect(rejected).toEqual(['Handler failed']);
+    expect(node.reputation.getReputation(mallory.publicKeyHex)!.accuracy).toBeLessThan(before);
+  });
+});
+
+describe('Canonical Encoding', () => {
+  const vectors = JSON.parse(
+    readFileSync(new URL('../../../docs/test-vectors/canonical-json.json', import.meta.url), 'utf8')
+  );
+
+  for (const v of vectors.canonical) {
+    it(`should match vector: ${v.name}`, () => {
+      const parsed = JSON.parse(v.input);
+      expect(canonicalJson(parsed)).toBe(v.canonical);
+      expect(hashJson(parsed)).toBe(v.sha256);
+    });
+  }
+
+  for (const v of vectors.signals) {
+    it(`should reproduce signal vector: ${v.name}`, async () => {
+      const body = v.body as LearningSignalBody;
+      expect(canonicalContent(body)).toBe(v.canonical);
+
+      const signed = await signSignal(body, v.private_key, { ttl: 8, hops: 0, path: [] });
+      expect(signed.signature).toBe(v.signature);
+      expect(await verifySignal(signed)).toBe(true);
+    });
+  }
+
+  it('should not depend on key insertion order or undefined fields', () => {
+    const a = { source_id: 's', prior_signal: undefined, payload: { b: 1, a: 2 } };
+    const b = { payload: { a: 2, b: 1 }, source_id: 's' };
+    expect(canonicalJson(a)).toBe(canonicalJson(b));
+    expect(hashJson(a)).toBe(hashJson(b));
+  });
+
+  it('should reject values without a canonical form', () => {
+    expect(() => canonicalJson({ x: NaN })).toThrow(TypeError);
+    expect(() => canonicalJson([undefined])).toThrow(TypeError);
+  });
+});
+
+describe('Key Rotation', () => {
+  it('should migrate peer history to the rotated key', async () => {
+    const { transports, identities } = await createKeyedSwarm(3);
+    const nodes = identities.map((id, i) => new SwarmNode(transports[i], id.privateKeyHex));
+    nodes.forEach(n => n.start());
+
+    const [observer, rotating] = nodes;
+    for (const rep of [observer.reputation, observer.reputationFor('nav')]) {
+      rep.track(rotating.id);
+      for (let i = 0; i < 5; i++) rep.recordSuccess(rotating.id);
+    }
+    observer.admission.recordConnection(rotating.id);
+    observer.quarantine.quarantine(rotating.id, DriftReason.HOLD_TOO_LONG);
+    const before = observer.reputation.getReputation(rotating.id)!;
+
+    const next = await generateIdentity();
+    const rotation = await rotating.rotateKey(next.privateKeyHex, 'scheduled');
+    await waitFor(() => observer.rotations.isRetired(rotating.id) && nodes[2].rotations.isRetired(rotating.id));
+
+    expect(observer.reputation.getReputation(rotating.id)).toBeUndefined();
+    expect(observer.reputation.getReputation(next.publicKeyHex)!.accuracy).toBe(before.accuracy);
+    expect(observer.reputationFor('nav').getReputation(rotating.id)).toBeUndefined();
+    expect(observer.reputationFor('nav').getReputation(next.publicKeyHex)!.accuracy).toBe(before.accuracy);
+    expect(observer.admission.isReturning(next.publicKeyHex)).toBe(true);
+    expect(observer.quarantine.isQuarantined(next.publicKeyHex)).toBe(true);
+    expect(observer.rotations.currentKey(rotating.id)).toBe(next.publicKeyHex);
+
+    expect(observer.audit.keyLineage(next.publicKeyHex)).toEqual([rotating.id, next.publicKeyHex]);
+    expect(observer.audit.forIdentity(next.publicKeyHex).some(e => e.kind === 'KEY_ROTATION')).toBe(true);
+    expect(rotation.new_key).toBe(next.publicKeyHex);
+  });
+
+  it('should require both keys to sign', async () => {
+    const [oldId, newId, other] = await Promise.all([generateIdentity(), generateIdentity(), generateIdentity()]);
+    const rotation = await buildKeyRotation(oldId.privateKeyHex, newId.privateKeyHex);
+
+    expect(await verifyKeyRotation(rotation)).toBe(true);
+    expect(await verifyKeyRotation({ ...rotation, new_key: other.publicKeyHex })).toBe(false);
+    expect(await verifyKeyRotation({ ...rotation, routing: { ttl: 1, hops: 3, path: [] } })).toBe(true);
+  });
+
+  it('should reject a second successor for the same key', async () => {
+    const { transports, identities: [identity] } = await createKeyedSwarm(1);
+    const node = new SwarmNode(transports[0], identity.privateKeyHex);
+    const [oldId, first, second] = await Promise.all([generateIdentity(), generateIdentity(), generateIdentity()]);
+
+    const a = await buildKeyRotation(oldId.privateKeyHex, first.privateKeyHex);
+    const b = await buildKeyRotation(oldId.privateKeyHex, second.privateKeyHex);
+
+    expect(await node.rotations.onIncoming(a, 'relay')).not.toBeNull();
+    expect(await node.rotations.onIncoming(b, 'relay')).toBeNull();
+    expect(node.rotations.currentKey(oldId.publicKeyHex)).toBe(first.publicKeyHex);
+  });
+
+  it('should quietly drop malformed rotation statements', async () => {
+    const { transports, identities: [identity] } = await createKeyedSwarm(1);
+    const node = new SwarmNode(transports[0], identity.privateKeyHex);
+    const [oldId, newId] = await Promise.all([generateIdentity(), generateIdentity()]);
+    const rotation = await buildKeyRotation(oldId.privateKeyHex, newId.privateKeyHex);
+    const rejected: string[] = [];
+    node.rotations.setCallbacks({ onRejected: (_r, _f, reason) => rejected.push(reason) });
+
+    const malformed = [null, { ...rotation, rotation_id: undefined }, { ...rotation, routing: null }];
+    for (const m of malformed) {
+      await expect(node.rotations.onIncoming(m as unknown as KeyRotation, 'relay')).resolves.toBeNull();
+    }
+    expect(rejected).toEqual([]);
+    expect(await node.rotations.onIncoming(rotation, 'relay')).not.toBeNull();
+  });
+
+  it('should count a lineage as one source and refuse the retired key', async () => {
+    const { transports, identities: [identity] } = await createKeyedSwarm(1);
+    const node = new SwarmNode(transports[0], identity.privateKeyHex);
+    const [oldId, newId] = await Promise.all([generateIdentity(), generateIdentity()]);
+    const [before, after] = [oldId, newId].map(id => createSignalBuilder(id.publicKeyHex, id.privateKeyHex, 'default'));
+    const rejected: string[] = [];
+    node.propagation.setCallbacks({ onRejected: (_s, _f, reason) => rejected.push(reason) });
+
+    await node.propagation.onIncoming(await buildSignal(before, { claim_hash: 'c', direction: 'strengthen', confidence: 0.7 }), oldId.publicKeyHex);
+    await node.rotations.onIncoming(await buildKeyRotation(oldId.privateKeyHex, newId.privateKeyHex), 'relay');
+    expect(node.beliefs.ledger.sources('c').map(a => a.sourceId)).toEqual([newId.publicKeyHex]);
+
+    await new Promise(r => setTimeout(r, 5));
+    await node.propagation.onIncoming(await buildSignal(after, { claim_hash: 'c', direction: 'weaken', confidence: 0.6 }), newId.publicKeyHex);
+    expect(node.beliefs.ledger.sources('c')).toHaveLength(1);
+    expect(node.beliefs.get('c')!.stance).toBe('weaken');
+
+    // The old key still signs, but nothing it signs after the rotation lands
+    const leaked = await buildSignal(before, { claim_hash: 'c', direction: 'strengthen', confidence: 0.9 });
+    expect(await node.propagation.onIncoming(leaked, oldId.publicKeyHex)).toBeNull();
+    expect(rejected).toEqual(['Signed by retired key']);
+    expect(node.beliefs.get('c')!.stance).toBe('weaken');
+  });
+});
+
+describe('Key Revocation', () => {
+  it('should unwind beliefs asserted by a revoked key', async () => {
+    const nodes = await createLine(3);
+    const [honest, compromised, observer] = nodes;
+
+    await honest.publishBelief('revoked-claim', 'strengthen', 0.6);
+    await waitFor(() => observer.beliefs.get('revoked-claim') !== undefined);
+    await new Promise(r => setTimeout(r, 5));
+
+    const from = Date.now();
+    await compromised.publishBelief('revoked-claim', 'weaken', 0.9);
+    await waitFor(() => observer.beliefs.get('revoked-claim')?.stance === 'weaken');
+
+    const revocation = await compromised.revokeKey({ from, reason: 'key leaked' });
+    await waitFor(() => observer.revocations.isRevoked(compromised.id, from));
+
+    const belief = observer.beliefs.get('revoked-claim')!;
+    expect(belief.stance).toBe('strengthen');
+    expect(belief.lastSourceId).toBe(honest.id);
+
+    const entry = observer.audit.forIdentity(compromised.id).find(e => e.kind === 'KEY_REVOCATION')!;
+    expect(entry.peerId).toBe(compromised.id);
+    expect((entry.data as { affected: { claims: string[] } }).affected.claims).toEqual(['revoked-claim']);
+
+    // Signals the key signs inside the revoked window no longer land
+    const rejected: string[] = [];
+    observer.propagation.setCallbacks({ onRejected: (_s, _f, reason) => rejected.push(reason) });
+    await compromised.publishBelief('later-claim', 'strengthen', 0.9);
+    await waitFor(() => rejected.length > 0);
+    expect(rejected).toContain('Signed by revoked key');
+    expect(observer.beliefs.get('later-claim')).toBeUndefined();
+    expect(revocation.issued_by).toBe(compromised.id);
+  });
+
+  it('should unwind and flag claims in a non-default domain', async () => {
+    const nodes = await createLine(3);
+    const [honest, compromised, observer] = nodes;
+    const updates: Array<[string, string]> = [];
+    observer.setCallbacks({ onBeliefUpdated: (claim, stance) => updates.push([claim, stance]) });
+
+    await honest.publishBelief('rain', 'strengthen', 0.6, { domain: 'weather' });
+    await waitFor(() => observer.beliefs.get('rain', 'weather') !== undefined);
+    await new Promise(r => setTimeout(r, 5));
+
+    const from = Date.now();
+    await compromised.publishBelief('rain', 'weaken', 0.9, { domain: 'weather' });
+    await waitFor(() => observer.beliefs.get('rain', 'weather')?.stance === 'weaken');
+    const proposalId = observer.proposeArbitration('rain', ['strengthen', 'weaken']);
+
+    updates.length = 0;
+    await compromised.revokeKey({ from });
+    await waitFor(() => observer.revocations.isRevoked(compromised.id, from));
+
+    expect(updates).toEqual([['rain', 'strengthen']]);
+    expect(observer.arbitration.getProposal(proposalId)!.needsReview).toBe(true);
+    const entry = observer.audit.forIdentity(compromised.id).find(e => e.kind === 'KEY_REVOCATION')!;
+    expect((entry.data as { affected: { claims: string[] } }).affected.claims).toEqual(['weather/rain']);
+  });
+
+  it('should only accept revocations from the key or a successor', async () => {
+    const { transports, identities: [identity] } = await createKeyedSwarm(1);
+    const node = new SwarmNode(transports[0], identity.privateKeyHex);
+    const [oldId, newId, stranger] = await Promise.all([generateIdentity(), generateIdentity(), generateIdentity()]);
+
+    const forged = await buildKeyRevocation(stranger.privateKeyHex, { key: oldId.publicKeyHex, from: 0 });
+    expect(await verifyKeyRevocation(forged)).toBe(true);
+    expect(await node.revocations.onIncoming(forged, 'relay')).toBeNull();
+
+    await node.rotations.onIncoming(await buildKeyRotation(oldId.privateKeyHex, newId.privateKeyHex), 'relay');
+    const bySuccessor = await buildKeyRevocation(newId.privateKeyHex, { key: oldId.publicKeyHex, from: 0, until: 1000 });
+    expect(await node.revocations.onIncoming(bySuccessor, 'relay')).not.toBeNull();
+    expect(node.revocations.isRevoked(oldId.publicKeyHex, 500)).toBe(true);
+    expect(node.revocations.isRevoked(oldId.publicKeyHex, 1000)).toBe(false);
+
+    const inverted = await buildKeyRevocation(oldId.privateKeyHex, { from: 10, until: 5 });
+    expect(await verifyKeyRevocation(inverted)).toBe(false);
+  });
+
+  it('should quietly drop malformed revocations', async () => {
+    const { transports, identities: [identity] } = await createKeyedSwarm(1);
+    const node = new SwarmNode(transports[0], identity.privateKeyHex);
+    const issuer = await generateIdentity();
+    const revocation = await buildKeyRevocation(issuer.privateKeyHex, { from: 0 });
+    const rejected: string[] = [];
+    node.revocations.setCallbacks({ onRejected: (_r, _f, reason) => rejected.push(reason) });
+
+    const malformed = [null, { ...revocation, revocation_id: 7 }, { ...revocation, revoked_from: 'x' }];
+    for (const m of malformed) {
+      await expect(node.revocations.onIncoming(m as unknown as KeyRevocation, 'relay')).resolves.toBeNull();
+    }
+    expect(rejected).toEqual([]);
+    expect(await node.revocations.onIncoming(revocation, 'relay')).not.toBeNull();
+  });
+
+  it('should merge covered revocation ranges and cap them per key', async () => {
+    const { transports, identities: [identity] } = await createKeyedSwarm(1);
+    const node = new SwarmNode(transports[0], identity.privateKeyHex, { maxRevocationsPerKey: 2 });
+    const key = await generateIdentity();
+    const rejected: string[] = [];
+    node.revocations.setCallbacks({ onRejected: (_r, _f, reason) => rejected.push(reason) });
+    const revoke = async (from: number, until?: number) =>
+      node.revocations.onIncoming(await buildKeyRevocation(key.privateKeyHex, { from, until }), 'relay');
+
+    expect(await revoke(1, 100)).not.toBeNull();
+    expect(await revoke(10, 50)).toBeNull();
+    expect(await revoke(200, 300)).not.toBeNull();
+    expect(await revoke(400, 500)).toBeNull();
+    expect(rejected).toEqual(['Range already revoked', 'Too many revocations for key']);
+
+    // An open-ended range replaces both it covers
+    expect(await revoke(0)).not.toBeNull();
+    expect(node.revocations.forKey(key.publicKeyHex).map(r => r.revoked_from)).toEqual([0]);
+    expect(node.revocations.export()).toHaveLength(1);
+  });
+
+  it('should rate-limit key rotations and revocations per sending peer', async () => {
+    const { transports, identities: [identity] } = await createKeyedSwarm(1);
+    const node = new SwarmNode(transports[0], identity.privateKeyHex, { keyEventRatePerSec: 0.1, rateBurstSeconds: 10 });
+    const keys = await Promise.all(Array(4).fill(0).map(() => generateIdentity()));
+    const rejected: string[] = [];
+    node.revocations.setCallbacks({ onRejected: (_r, _f, reason) => rejected.push(reason) });
+    node.rotations.setCallbacks({ onRejected: (_r, _f, reason) => rejected.push(reason) });
+    node.reputation.track('relay');
+    const before = node.reputation.getReputation('relay')!.accuracy;
+
+    // One token each; later events are dropped, and only the first drop costs reputation
+    for (const key of keys.slice(0, 3)) {
+      const revocation = await buildKeyRevocation(key.privateKeyHex, { from: 0 });
+      const accepted = await node.revocations.onIncoming(revocation, 'relay');
+      expect(accepted === null).toBe(key !== keys[0]);
+    }
+    expect(await node.rotations.onIncoming(await buildKeyRotation(keys[0].privateKeyHex, keys[1].privateKeyHex), 'other')).not.toBeNull();
+    expect(await node.rotations.onIncoming(await buildKeyRotation(keys[2].privateKeyHex, keys[3].privateKeyHex), 'other')).toBeNull();
+
+    expect(rejected).toEqual(['Key event rate exceeded', 'Key event rate exceeded']);
+    expect(node.revocations.isRevoked(keys[1].publicKeyHex, 1)).toBe(false);
+    expect(node.reputation.getReputation('relay')!.accuracy).toBeLessThan(before);
+  });
+
+  it('should flag conflict records that relied on revoked observations', () => {
+    const conflicts = new ConflictAccumulator();
+    conflicts.observeBelief('a', 'claim', 'strengthen', 0.8, 100);
+    conflicts.observeBelief('b', 'claim', 'weaken', 0.8, 200);
+
+    expect(conflicts.flagForReview('b', 150)).toEqual(['claim']);
+    const [rec] = conflicts.export();
+    expect(rec.needsReview).toBe(true);
+    expect(rec.counts).toEqual({ strengthen: 1 });
+  });
+});
+
+describe('Propagation Throughput', () => {
+  it('should verify each signal once per node on a 50-node mesh', async () => {
+    const bus = new MemoryBus();
+    const identities = await Promise.all(Array(50).fill(0).map(() => generateIdentity()));
+    let accepted = 0;
+
+    const propagations = identities.map(id => {
+      const transport = new MemoryTransport(id.publicKeyHex, bus);
+      const propagation = new Propagation(transport, new ReputationSystem(), new QuarantineSystem());
+      propagation.setCallbacks({ onAccepted: () => accepted++ });
+      transport.onMessage(m => {
+        if (m.type === 'LEARNING_SIGNAL') void propagation.onIncoming(m.signal, m.from);
+      });
+      return propagation;
+    });
+
+    const signalCount = 20;
+    const signals = await Promise.all(
+      Array(signalCount).fill(0).map((_, i) => {
+        const author = identities[i % identities.length];
+        const builder = createSignalBuilder(author.publicKeyHex, author.privateKeyHex, 'bench');
+        return buildSignal(builder, { claim_hash: `bench-${i}`, direction: 'strengthen', confidence: 0.7 });
+      })
+    );
+
+    for (let i = 0; i < signals.length; i++) {
+      await propagations[i % propagations.length].publish(signals[i]);
+    }
+    await waitFor(() => accepted === signalCount * (identities.length - 1), 30_000);
+
+    const stats = propagations.map(p => p.getStats());
+    const received = stats.reduce((n, s) => n + s.received, 0);
+    const verified = stats.reduce((n, s) => n + s.verified, 0);
+
+    // One signature check per node per signal, however many copies arrive
+    for (const s of stats) {
+      expect(s.verified).toBeLessThanOrEqual(signalCount);
+    }
+    expect(verified).toBe(signalCount * (identities.length - 1));
+    expect(received).toBeGreaterThan(verified * 10);
+  }, 60_000);
+
+  it('should skip wire verification of duplicate signal copies in a node', async () => {
+    const { transports, identities } = await createKeyedSwarm(5);
+    const nodes = identities.map((id, i) => new SwarmNode(transports[i], id.privateKeyHex));
+    nodes.forEach(n => n.start());
+    const [author, ...peers] = nodes;
+
+    await author.publishBelief('mesh', 'strengthen', 0.7);
+    await waitFor(() => peers.every(p => p.beliefs.get('mesh') !== undefined));
+    await waitFor(() => peers.every(p => p.wire.skippedCount + p.propagation.getStats().received >= peers.length));
+
+    // The first copy is verified; relayed copies are dropped on the content hash
+    for (const peer of peers) {
+      expect(peer.propagation.getStats().verified).toBe(1);
+      expect(peer.wire.skippedCount).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('Evidence', () => {
+  it('should fetch cited evidence and weight the belief it backs', async () => {
+    const { transports, identities } = await createKeyedSwarm(2);
+    const nodes = identities.map((id, i) => new SwarmNode(transports[i], id.privateKeyHex));
+    nodes.forEach(n => n.start());
+    const [author, peer] = nodes;
+
+    const signal = await author.publishBelief('backed', 'strengthen', 0.6, { evidence: 'sensor log 42' });
+    expect(signal.payload.evidence_hash).toBe(evidenceHash('sensor log 42'));
+
+    await waitFor(() => peer.evidence.has(signal.payload.evidence_hash!));
+    await waitFor(() => peer.beliefs.get('backed')!.confidence > 0.6);
+
+    expect(peer.beliefs.get('backed')!.confidence).toBeCloseTo(0.9);
+    expect(why(peer.beliefs, 'backed')!.evidence).toEqual([
+      { hash: signal.payload.evidence_hash, verified: true },
+    ]);
+  });
+
+  it('should not let a bare assertion displace a backed belief', async () => {
+    const store = new BeliefStore({ evidence: { has: () => true }, evidenceWeight: 1.5 });
+    const [alice, bob] = await Promise.all([generateIdentity(), generateIdentity()]);
+
+    const backed = await buildSignal(
+      createSignalBuilder(alice.publicKeyHex, alice.privateKeyHex, 'default'),
+      { claim_hash: 'c', direction: 'strengthen', confidence: 0.5, evidence_hash: 'e1' }
+    );
+    await new Promise(r => setTimeout(r, 5));
+    const bare = await buildSignal(
+      createSignalBuilder(bob.publicKeyHex, bob.privateKeyHex, 'default'),
+      { claim_hash: 'c', direction: 'weaken', confidence: 0.7 }
+    );
+
+    store.apply(backed);
+    store.apply(bare);
+    expect(store.get('c')!.stance).toBe('strengthen');
+    expect(store.get('c')!.evidenceHash).toBe('e1');
+  });
+
+  it('should drop evidence whose bytes do not match the hash', async () => {
+    const { transports, identities } = await createKeyedSwarm(2);
+    const node = new SwarmNode(transports[0], identities[0].privateKeyHex, { evidenceTimeoutMs: 200 });
+    node.start();
+
+    const hash = evidenceHash('the real artifact');
+    transports[1].onMessage(async (m) => {
+      if (m.type !== 'EVIDENCE_REQ') return;
+      transports[1].send(m.from, await signWire({
+        type: 'EVIDENCE_RESP',
+        from: transports[1].id,
+        ts: Date.now(),
+        hash: m.hash,
+        data: Buffer.from('a forgery').toString('hex'),
+      }, identities[1].privateKeyHex));
+    });
+
+    expect(await node.evidence.fetch(hash)).toBeNull();
+    expect(node.evidence.has(hash)).toBe(false);
+    expect(node.audit.forPeer(transports[1].id).some(e =>
+      (e.data as { action?: string }).action === 'evidence_rejected'
+    )).toBe(true);
+  });
+
+  it('should keep only the most recently used evidence when full', async () => {
+    const bus = new MemoryBus();
+    const server = new EvidenceStore(new MemoryTransport('server', bus));
+    const client = new EvidenceStore(new MemoryTransport('client', bus), { evidenceStoreSize: 2 });
+    server.start();
+    client.start();
+
+    const hashes = ['one', 'two', 'three', 'four'].map(a => server.put(a));
+    for (const hash of hashes) {
+      expect(await client.fetch(hash, 'server')).not.toBeNull();
+    }
+
+    expect(client.size).toBe(2);
+    expect(hashes.map(h => client.has(h))).toEqual([false, false, true, true]);
+    expect(client.export().map(e => e.hash)).toEqual(hashes.slice(2));
+  });
+
+  it('should weight arbitration votes that cite verified evidence', () => {
+    const bus = new MemoryBus();
+    const [arbiter, a, b] = ['arbiter', 'a', 'b'].map(id => new MemoryTransport(id, bus));
+    const reputation = new ReputationSystem();
+    for (const voter of [a, b]) {
+      reputation.track(voter.id);
+      for (let i = 0; i < 5; i++) reputation.recordSuccess(voter.id);
+    }
+
+    const evidence = new EvidenceStore(arbiter);
+    const hash = evidence.put('incident report');
+    const arbitration = new Arbitration(arbiter, new ConflictAccumulator(), reputation, new QuarantineSystem(), {}, evidence);
+    arbitration.start();
+
+    const id = arbitration.propose('disputed', ['first', 'second']);
+    a.broadcast({ type: 'ARBITRATION_VOTE', from: a.id, ts: Date.now(), proposalId: id, option: 'first', weight: 1 });
+    b.broadcast({ type: 'ARBITRATION_VOTE', from: b.id, ts: Date.now(), proposalId: id, option: 'second', weight: 1, evidenceHash: hash });
+
+    expect(arbitration.tally(id)).toBe('second');
+  });
+});
+
+describe('Attestation', () => {
+  async function votedSwarm() {
+    const { transports, identities } = await createKeyedSwarm(4);
+    const nodes = identities.map((id, i) => new SwarmNode(transports[i], id.privateKeyHex));
+    for (const node of nodes) {
+      for (const peer of nodes) {
+        node.reputation.track(peer.id);
+        for (let i = 0; i < 5; i++) node.reputation.recordSuccess(peer.id);
+      }
+      node.start();
+    }
+
+    const proposalId = nodes[0].proposeArbitration('disputed-claim', ['keep', 'drop']);
+    await waitFor(() => nodes.every(n => n.arbitration.getProposal(proposalId) !== undefined));
+    ['keep', 'keep', 'keep', 'drop'].forEach((option, i) => nodes[i].vote(proposalId, option));
+    await waitFor(() => nodes[0].arbitration.getProposal(proposalId)!.votes.size === 4);
+
+    return { nodes, proposalId };
+  }
+
+  it('should produce a certificate co-signed by voters that verifies offline', async () => {
+    const { nodes, proposalId } = await votedSwarm();
+
+    expect(nodes[0].resolveArbitration(proposalId)).toBe('keep');
+    await waitFor(() => nodes[0].attestations.getCertificate(proposalId) !== undefined);
+
+    // Round-trip through JSON: nothing but the certificate and public keys
+    const cert = JSON.parse(JSON.stringify(nodes[0].attestations.getCertificate(proposalId)));
+    const check = await verifyCertificate(cert);
+    expect(check.valid).toBe(true);
+    expect(check.signedWeight).toBeGreaterThanOrEqual(cert.statement.threshold * check.totalWeight);
+    expect(cert.statement.votes.map((v: { voter: string }) => v.voter).sort())
+      .toEqual(nodes.map(n => n.id).sort());
+  });
+
+  it('should reject tampered or under-signed certificates', async () => {
+    const { nodes, proposalId } = await votedSwarm();
+    nodes[0].resolveArbitration(proposalId);
+    await waitFor(() => nodes[0].attestations.getCertificate(proposalId)?.signatures.length === 4);
+    const cert = nodes[0].attestations.getCertificate(proposalId)!;
+
+    const flipped = { ...cert, statement: { ...cert.statement, winner: 'drop' } };
+    expect((await verifyCertificate(flipped)).valid).toBe(false);
+
+    const reweighed = {
+      ...cert,
+      statement: {
+        ...cert.statement,
+        votes: cert.statement.votes.map(v => v.option === 'drop' ? { ...v, weight: 10 } : v),
+        winner: 'drop',
+      },
+    };
+    expect((await verifyCertificate(reweighed)).reason).toMatch(/Invalid signature/);
+
+    const thin = { ...cert, signatures: cert.signatures.slice(0, 1) };
+    expect(await verifyCertificate(thin)).toMatchObject({ valid: false, reason: 'Below threshold' });
+  });
+
+  it('should reject hand-built certificates with a lax threshold or fabricated votes', async () => {
+    const [a, b, forger] = await Promise.all([generateIdentity(), generateIdentity(), generateIdentity()]);
+    const statement = {
+      v: 2,
+      proposal_id: 'forged',
+      claim_hash: 'disputed-claim',
+      options: ['keep', 'drop'],
+      winner: 'drop',
+      votes: [a, b, forger].map(id => ({ voter: id.publicKeyHex, option: 'drop', weight: 1 })),
+      threshold: 0,
+      issued_by: forger.publicKeyHex,
+      issued_at: Date.now(),
+    };
+
+    // Nobody signed, and threshold 0 would accept that
+    expect(await verifyCertificate({ statement, signatures: [] }))
+      .toMatchObject({ valid: false, reason: 'Threshold out of range' });
+
+    // Votes put in real voters' names, backed only by the forger's own signature
+    const lax = { ...statement, threshold: 0.3 };
+    const sign = async (s: typeof statement) => ({
+      signer: forger.publicKeyHex,
+      signature: Buffer.from(await ed.signAsync(attestationHash(s), Buffer.from(forger.privateKeyHex, 'hex'))).toString('hex'),
+    });
+    expect(await verifyCertificate({ statement: lax, signatures: [await sign(lax)] }))
+      .toMatchObject({ valid: false, reason: 'Threshold below minimum' });
+    const strict = { ...statement, threshold: 0.67 };
+    expect(await verifyCertificate({ statement: strict, signatures: [await sign(strict)] }))
+      .toMatchObject({ valid: false, reason: 'Below threshold' });
+
+    expect(await verifyCertificate({ statement: null, signatures: [] } as unknown as AttestationCertificate))
+      .toMatchObject({ valid: false, reason: 'Malformed certificate' });
+  });
+
+  it('should refuse to co-sign statements that misrecord other votes or lower the threshold', async () => {
+    const { nodes, proposalId } = await votedSwarm();
+    nodes[0].resolveArbitration(proposalId);
+    await waitFor(() => nodes[0].attestations.getCertificate(proposalId)?.signatures.length === 4);
+    const { statement } = nodes[0].attestations.getCertificate(proposalId)!;
+
+    const rejected: string[] = [];
+    nodes[1].attestations.setCallbacks({ onRejected: (_p, _f, reason) => rejected.push(reason) });
+    const request = (s: unknown) => nodes[0].wire.send(nodes[1].id, {
+      type: 'ATTESTATION_REQ', from: nodes[0].id, ts: Date.now(), statement: s as AttestationStatement,
+    });
+
+    request({ ...statement, votes: statement.votes.map(v => v.voter === nodes[3].id ? { ...v, option: 'keep' } : v) });
+    request({ ...statement, votes: statement.votes.map(v => v.voter === nodes[2].id ? { ...v, weight: 10 } : v) });
+    request({ ...statement, threshold: 0.1 });
+    request(null);
+    // Leaving out the dissenting vote still elects 'keep', but hides the dissent
+    request({ ...statement, votes: statement.votes.filter(v => v.voter !== nodes[3].id) });
+    await waitFor(() => rejected.length === 5);
+
+    expect(rejected.sort()).toEqual([
+      `Statement misrecords vote: ${nodes[3].id}`,
+      `Statement overweights vote: ${nodes[2].id}`,
+      'Threshold below minimum',
+      'Malformed statement',
+      `Statement omits vote: ${nodes[3].id}`,
+    ].sort());
+  });
+
+  it('should drop attestation requests once certified or stale', async () => {
+    const { nodes, proposalId } = await votedSwarm();
+    nodes[0].resolveArbitration(proposalId);
+    await waitFor(() => nodes[0].attestations.getCertificate(proposalId)?.signatures.length === 4);
+    expect(nodes[0].attestations.pendingCount).toBe(0);
+
+    // A repeat request for a certified proposal never certifies again
+    const statement = (await nodes[0].attestations.request(nodes[0].arbitration.getProposal(proposalId)!))!;
+    expect(nodes[0].attestations.pendingCount).toBe(1);
+    nodes[0].attestations.prune(300_000, statement.issued_at + 300_000);
+    expect(nodes[0].attestations.pendingCount).toBe(1);
+    nodes[0].attestations.prune(300_000, statement.issued_at + 300_001);
+    expect(nodes[0].attestations.pendingCount).toBe(0);
+  });
+});
+
+describe('Domains', () => {
+  it('should keep a builder per domain without leaking into later calls', async () => {
+    const { transports, identities: [identity] } = await createKeyedSwarm(1);
+    const node = new SwarmNode(transports[0], identity.privateKeyHex, {
+      domainPolicies: { nav: { defaultTtl: 2, newPeerInfluence: 0.02 } },
+    });
+
+    const nav = await node.publishBelief('route', 'strengthen', 0.8, { domain: 'nav' });
+    const plain = await node.publishBelief('route', 'weaken', 0.6);
+
+    expect(nav.domain).toBe('nav');
+    expect(nav.routing.ttl).toBe(2);
+    expect(plain.domain).toBe('default');
+    expect(plain.routing.ttl).toBe(8);
+    expect(nav.signal_id).not.toBe(plain.signal_id);
+
+    // Same claim, separate beliefs
+    expect(node.beliefs.get('route', 'nav')!.stance).toBe('strengthen');
+    expect(node.beliefs.get('route')!.stance).toBe('weaken');
+    expect(node.beliefs.inDomain('nav')).toHaveLength(1);
+
+    expect(node.reputationFor('nav').getInfluence('stranger')).toBe(0.02);
+    expect(node.reputationFor('default').getInfluence('stranger')).toBe(0.1);
+  });
+
+  it('should drop signals for domains a node has not subscribed to', async () => {
+    const { transports, identities } = await createKeyedSwarm(2);
+    const author = new SwarmNode(transports[0], identities[0].privateKeyHex);
+    const peer = new SwarmNode(transports[1], identities[1].privateKeyHex, { subscribedDomains: ['nav'] });
+    author.start();
+    peer.start();
+
+    await author.publishBelief('chatter', 'strengthen', 0.5, { domain: 'comms' });
+    await author.publishBelief('heading', 'strengthen', 0.9, { domain: 'nav' });
+    await waitFor(() => peer.beliefs.get('heading', 'nav') !== undefined);
+
+    expect(peer.beliefs.get('chatter', 'comms')).toBeUndefined();
+    expect(peer.propagation.getStats().filtered).toBe(1);
+    expect(peer.reputationFor('nav').getReputation(author.id)).toBeDefined();
+    expect(peer.reputationFor('comms').getReputation(author.id)).toBeUndefined();
+  });
+
+  it('should not collide a slashed default-domain claim with another domain', async () => {
+    const author = await generateIdentity();
+    const plain = createSignalBuilder(author.publicKeyHex, author.privateKeyHex, 'default');
+    const inA = createSignalBuilder(author.publicKeyHex, author.privateKeyHex, 'a');
+    const store = new BeliefStore();
+
+    store.apply(await buildSignal(plain, { claim_hash: 'a/b', direction: 'strengthen', confidence: 0.9 }));
+    store.apply(await buildSignal(inA, { claim_hash: 'b', direction: 'weaken', confidence: 0.4 }));
+
+    expect(beliefKey('a/b')).not.toBe(beliefKey('b', 'a'));
+    expect(store.size).toBe(2);
+    expect(store.get('a/b')!.stance).toBe('strengthen');
+    expect(store.get('b', 'a')!.stance).toBe('weaken');
+    expect(() => beliefKey('b', 'x/a')).toThrow(TypeError);
+  });
+
+  it('should weigh a source by its standing in the belief\'s domain', async () => {
+    const { transports, identities: [identity] } = await createKeyedSwarm(1);
+    const node = new SwarmNode(transports[0], identity.privateKeyHex, { beliefAggregation: 'reputation-weighted' });
+    const expert = await generateIdentity();
+    for (const rep of [node.reputation, node.reputationFor('nav')]) {
+      rep.track(expert.publicKeyHex);
+      for (let i = 0; i < 20; i++) rep.recordSuccess(expert.publicKeyHex);
+    }
+
+    for (const domain of ['nav', 'comms']) {
+      const builder = createSignalBuilder(expert.publicKeyHex, expert.privateKeyHex, domain);
+      node.beliefs.apply(await buildSignal(builder, { claim_hash: 'heading', direction: 'strengthen', confidence: 0.8 }));
+    }
+    const weightIn = (domain: string) => node.beliefs.get('heading', domain)!.contributions![0].weight;
+
+    expect(weightIn('nav')).toBeGreaterThan(0.5);
+    expect(weightIn('comms')).toBe(DEFAULT_CONFIG.newPeerInfluence);
+  });
+
+  it('should keep reputation for a bounded number of domains', async () => {
+    const { transports, identities: [identity] } = await createKeyedSwarm(1);
+    const node = new SwarmNode(transports[0], identity.privateKeyHex, { maxReputationDomains: 2 });
+    node.reputationFor('nav').track('author');
+    node.reputationFor('comms').track('author');
+    node.reputationFor('nav');
+
+    node.reputationFor('spam');
+    expect(Object.keys(node.export().domainReputation).sort()).toEqual(['nav', 'spam']);
+    expect(node.reputationFor('nav').getReputation('author')).toBeDefined();
+  });
+
+  it('should apply each domain\'s divergence threshold to conflicts', () => {
+    const config = {
+      domainPolicies: { sensors: { beliefDivergenceThreshold: 0.95 } },
+    };
+    const conflicts = new ConflictAccumulator(config);
+    for (const domain of [undefined, 'sensors']) {
+      ['a', 'b', 'c'].forEach(peer => conflicts.observeBelief(peer, 'claim', 'strengthen', 0.8, 1, undefined, domain));
+      conflicts.observeBelief('d', 'claim', 'weaken', 0.8, 1, undefined, domain);
+    }
+
+    expect(conflicts.active().map(r => r.domain)).toEqual([undefined]);
+    expect(conflicts.get('claim', 'sensors')!.conflictScore).toBeCloseTo(conflicts.get('claim')!.conflictScore);
+  });
+});
+
+describe('Scope Routing', () => {
+  /**
+   * Clusters a = {a1, a2} and b = {b1}, with a2 configured as the bridge.
+   * A fourth node, c1, announces itself in cluster a as a bridge but is
+   * listed by nobody.
+   */
+  async function createClusters() {
+    const { transports, identities } = await createKeyedSwarm(4);
+    const [a1Id, a2Id, b1Id] = identities.map(id => id.publicKeyHex);
+    const routing = {
+      clusterMembers: { [a1Id]: 'a', [a2Id]: 'a', [b1Id]: 'b' },
+      bridgePeers: [a2Id],
+    };
+    const a1 = new SwarmNode(transports[0], identities[0].privateKeyHex, { clusterId: 'a', ...routing });
+    const a2 = new SwarmNode(transports[1], identities[1].privateKeyHex, { clusterId: 'a', bridge: true, ...routing });
+    const b1 = new SwarmNode(transports[2], identities[2].privateKeyHex, { clusterId: 'b', ...routing });
+    const c1 = new SwarmNode(transports[3], identities[3].privateKeyHex, { clusterId: 'a', bridge: true });
+    const nodes = [a1, a2, b1, c1];
+    nodes.forEach(n => n.start());
+    await waitFor(() => nodes.every(n => n.membership.connectedPeers().length === nodes.length - 1));
+    return { a1, a2, b1, c1, identities };
+  }
+
+  it('should keep local and cluster signals inside their boundary and bridge global ones', async () => {
+    const { a1, a2, b1 } = await createClusters();
+    expect(a1.membership.clusterPeers()).toEqual([a2.id]);
+    expect(b1.membership.isBridgePeer(a2.id)).toBe(true);
+    expect(b1.membership.isBridgePeer(a1.id)).toBe(false);
+
+    const senders: string[] = [];
+    const onIncoming = b1.propagation.onIncoming.bind(b1.propagation);
+    b1.propagation.onIncoming = (signal, from) => {
+      senders.push(from);
+      return onIncoming(signal, from);
+    };
+
+    await a1.publishBelief('lamp', 'strengthen', 0.7, { scope: 'local' });
+    await a1.publishBelief('room', 'strengthen', 0.7, { scope: 'cluster' });
+    await a1.publishBelief('sky', 'strengthen', 0.7, { scope: 'global' });
+    await waitFor(() => b1.beliefs.get('sky') !== undefined);
+
+    expect(a1.beliefs.get('lamp')).toBeDefined();
+    expect(a2.beliefs.get('lamp')).toBeUndefined();
+    expect(a2.beliefs.get('room')).toBeDefined();
+    expect(b1.beliefs.get('room')).toBeUndefined();
+
+    // a1 is not a bridge, so the global signal reached b1 through a2 only
+    expect(senders).toEqual([a2.id]);
+  });
+
+  it('should reject scope-violating signals and penalise the sender', async () => {
+    const { a1, b1, identities } = await createClusters();
+    const rejected: string[] = [];
+    a1.propagation.setCallbacks({ onRejected: (_s, _f, reason) => rejected.push(reason) });
+    const before = a1.reputation.track(b1.id).accuracy;
+
+    const builder = createSignalBuilder(b1.id, identities[2].privateKeyHex, 'default');
+    const payload = { claim_hash: 'door', direction: 'strengthen' as const, confidence: 0.9 };
+    for (const scope of ['local', 'cluster', 'global'] as const) {
+      const signal = await buildSignal(builder, payload, { scope });
+      b1.wire.send(a1.id, { type: 'LEARNING_SIGNAL', from: b1.id, ts: Date.now(), signal });
+    }
+    await waitFor(() => rejected.length === 3);
+
+    expect(rejected.every(r => r.startsWith('Scope violation'))).toBe(true);
+    expect(a1.beliefs.get('door')).toBeUndefined();
+    expect(a1.reputation.getReputation(b1.id)!.accuracy).toBeLessThan(before);
+  });
+
+  it('should treat a peer that only announces its cluster and bridge role as foreign', async () => {
+    const { a1, b1, c1, identities } = await createClusters();
+    const rejected: string[] = [];
+    a1.propagation.setCallbacks({ onRejected: (_s, _f, reason) => rejected.push(reason) });
+    expect(a1.membership.clusterOf(c1.id)).toBeUndefined();
+    expect(b1.membership.isBridgePeer(c1.id)).toBe(false);
+
+    const builder = createSignalBuilder(c1.id, identities[3].privateKeyHex, 'default');
+    for (const scope of ['cluster', 'global'] as const) {
+      const signal = await buildSignal(builder, { claim_hash: `door-${scope}`, direction: 'strengthen', confidence: 0.9 }, { scope });
+      c1.wire.send(a1.id, { type: 'LEARNING_SIGNAL', from: c1.id, ts: Date.now(), signal });
+    }
+    await waitFor(() => rejected.length === 2);
+
+    expect(rejected).toEqual([
+      'Scope violation: cluster signal from outside cluster',
+      'Scope violation: global signal crossed cluster without bridge',
+    ]);
+    expect(a1.beliefs.get('door-cluster')).toBeUndefined();
+    expect(a1.beliefs.get('door-global')).toBeUndefined();
+  });
+});
+
+describe('Gossip Propagation', () => {
+  /**
+   * Bare propagation layers over a memory bus; each node's membership
+   * knows a random maxPeers-sized sample of the others
+   */
+  async function createSimSwarm(count: number, config: Partial<SwarmConfig>) {
+    const bus = new MemoryBus();
+    const identities = await Promise.all(Array(count).fill(0).map(() => generateIdentity()));
+    const reached = new Map<string, number>();
+
+    const propagations = identities.map(id => {
+      const transport = new MemoryTransport(id.publicKeyHex, bus);
+      const membership = new Membership(transport, new TStateManager(config), config);
+      const others = identities.filter(o => o !== id).sort(() => Math.random() - 0.5);
+      others.slice(0, config.maxPeers ?? DEFAULT_CONFIG.maxPeers).forEach(o => membership.observe(o.publicKeyHex, Date.now()));
+
+      const propagation = new Propagation(
+        transport, new ReputationSystem(), new QuarantineSystem(), config, undefined, membership
+      );
+      propagation.setCallbacks({
+        onAccepted: (s) => reached.set(s.signal_id, (reached.get(s.signal_id) ?? 0) + 1),
+      });
+      transport.onMessage(m => {
+        if (m.type === 'LEARNING_SIGNAL') void propagation.onIncoming(m.signal, m.from);
+        else if (m.type === 'GOSSIP_DIGEST') propagation.onDigest(m.keys, m.from);
+        else if (m.type === 'GOSSIP_PULL') propagation.onPull(m.keys, m.from);
+      });
+      return propagation;
+    });
+
+    return { identities, propagations, reached };
+  }
+
+  /**
+   * Publish one signal and run gossip rounds until every node has it
+   */
+  async function spread(count: number, config: Partial<SwarmConfig>) {
+    const { identities, propagations, reached } = await createSimSwarm(count, config);
+    const author = identities[0];
+    const builder = createSignalBuilder(author.publicKeyHex, author.privateKeyHex, 'bench');
+    const signal = await buildSignal(
+      builder,
+      { claim_hash: 'bench', direction: 'strengthen', confidence: 0.7 },
+      { ttl: config.defaultTtl }
+    );
+    const converged = () => reached.get(signal.signal_id) === count - 1;
+
+    // Wait until no copies are still arriving
+    const settle = async () => {
+      let last = -1;
+      let total = 0;
+      while (total !== last) {
+        last = total;
+        await new Promise(r => setTimeout(r, 10));
+        total = propagations.reduce((n, p) => n + p.getStats().received, 0);
+      }
+    };
+
+    const started = Date.now();
+    await propagations[0].publish(signal);
+    const authorSent = propagations[0].getStats().sent;
+    let rounds = 0;
+    for (; rounds < 50; rounds++) {
+      await settle();
+      if (converged()) break;
+      propagations.forEach(p => p.tick((rounds + 1) * 1_000));
+    }
+
+    const stats = propagations.map(p => p.getStats());
+    return {
+      converged: converged(),
+      rounds,
+      messages: stats.reduce((n, s) => n + s.sent + s.digests, 0),
+      convergenceMs: Date.now() - started,
+      maxLatencyMs: Math.max(...stats.map(s => s.maxLatencyMs)),
+      authorSent,
+    };
+  }
+
+  it('should push to fanout peers and pull what the push missed', async () => {
+    const result = await spread(20, { propagationMode: 'gossip', gossipFanout: 2, defaultTtl: 2 });
+
+    expect(result.authorSent).toBe(2);
+    expect(result.converged).toBe(true);
+    expect(result.rounds).toBeGreaterThan(0);
+  }, 30_000);
+
+  // The 500-node run takes tens of seconds; set SWARM_BENCH=1 to include it
+  const benchSizes = process.env.SWARM_BENCH ? [10, 100, 500] : [10, 100];
+
+  it(`should cost fewer messages than flooding at ${benchSizes.join(', ')} nodes`, async () => {
+    for (const count of benchSizes) {
+      const flood = await spread(count, { propagationMode: 'flood' });
+      const gossip = await spread(count, { propagationMode: 'gossip' });
+
+      expect(flood.converged).toBe(true);
+      expect(gossip.converged).toBe(true);
+      expect(flood.messages).toBe(count * (count - 1));
+      if (count > 10) expect(gossip.messages).toBeLessThan(flood.messages / 5);
+
+      // Flooding costs each node a message per peer; gossip stays flat per node
+      expect(gossip.messages / count).toBeLessThan(10);
+    }
+  }, 300_000);
+
+  it('should drop malformed digest and pull keys and blame the sender', () => {
+    const bus = new MemoryBus();
+    const reputation = new ReputationSystem();
+    const propagation = new Propagation(
+      new MemoryTransport('node', bus), reputation, new QuarantineSystem(), { propagationMode: 'gossip' }
+    );
+    const key = 'ab'.repeat(32);
+    for (const peer of ['honest', 'mallory']) reputation.track(peer);
+    const accuracy = (peer: string) => reputation.getReputation(peer)!.accuracy;
+    const before = accuracy('mallory');
+
+    propagation.onDigest([key], 'honest');
+    propagation.onPull([key], 'honest');
+    expect(accuracy('honest')).toBe(before);
+
+    expect(() => propagation.onDigest(null as unknown as string[], 'mallory')).not.toThrow();
+    expect(() => propagation.onPull([key, 5, 'zz'] as unknown as string[], 'mallory')).not.toThrow();
+    expect(accuracy('mallory')).toBeLessThan(before);
+  });
+});
+
+describe('Anti-Entropy Sync', () => {
+  async function createPartitioned(count: number) {
+    const { bus, transports, identities } = await createKeyedSwarm(count);
+    const nodes = identities.map((id, i) => new SwarmNode(transports[i], id.privateKeyHex));
+    nodes.forEach(n => n.start());
+    await waitFor(() => nodes.every(n => n.membership.peerCount === count - 1));
+
+    // Cut the last node off: linked peers only reach each other
+    const away = nodes[count - 1];
+    const rest = nodes.slice(0, -1);
+    bus.link(away.id, 'nowhere');
+    rest.forEach((a, i) => rest.slice(i + 1).forEach(b => bus.link(a.id, b.id)));
+    const heal = () => rest.forEach(n => bus.link(n.id, away.id));
+
+    return { nodes, rest, away, heal };
+  }
+
+  it('should recover signals missed during a partition on recontact', async () => {
+    const { rest: [a, b], away, heal } = await createPartitioned(3);
+
+    for (let i = 0; i < 40; i++) {
+      await a.publishBelief(`missed-${i}`, 'strengthen', 0.7);
+    }
+    await away.publishBelief('from-away', 'weaken', 0.6);
+    await waitFor(() => b.beliefs.get('missed-39') !== undefined);
+    expect(away.beliefs.get('missed-0')).toBeUndefined();
+    expect(a.beliefs.get('from-away')).toBeUndefined();
+
+    heal();
+    away.tState.force(TState.T4);
+    await waitFor(() => Array(40).fill(0).every((_, i) => away.beliefs.get(`missed-${i}`) !== undefined));
+    await waitFor(() => a.beliefs.get('from-away') !== undefined);
+
+    expect(away.sync.getStats().sessions).toBe(2);
+    expect(away.sync.archivedCount).toBe(41);
+    // 41 signals differ out of 41, so the first exchange splits the key space
+    expect(away.sync.getStats().ranges).toBeGreaterThan(1);
+  });
+
+  it('should sync periodically in T0 only', async () => {
+    const { rest: [a], away, heal } = await createPartitioned(2);
+    await a.publishBelief('quiet', 'strengthen', 0.8);
+    heal();
+
+    away.tState.force(TState.T2);
+    away.sync.tick(100_000);
+    expect(away.sync.getStats().sessions).toBe(0);
+
+    away.tState.force(TState.T0);
+    away.sync.tick(100_000);
+    away.sync.tick(100_000 + 1_000);
+    expect(away.sync.getStats().sessions).toBe(1);
+    await waitFor(() => away.beliefs.get('quiet') !== undefined);
+  });
+
+  it('should drop malformed sync messages and rate-limit each peer', () => {
+    const bus = new MemoryBus();
+    const config = { syncRatePerSec: 1, rateBurstSeconds: 3 };
+    const transport = new MemoryTransport('node', bus);
+    const reputation = new ReputationSystem();
+    const tState = new TStateManager(config);
+    const membership = new Membership(transport, tState, config);
+    const propagation = new Propagation(transport, reputation, new QuarantineSystem(), config);
+    const sync = new AntiEntropy(transport, propagation, membership, tState, config, reputation);
+    sync.start();
+
+    const mallory = new MemoryTransport('mallory', bus);
+    const send = (msg: object) => mallory.send('node', { from: 'mallory', ts: Date.now(), ...msg } as WireMessage);
+    send({ type: 'SYNC_RANGES', ranges: null });
+    send({ type: 'SYNC_RANGES', ranges: [null] });
+    send({ type: 'SYNC_KEYS', prefix: 'ab', keys: 'not-a-list' });
+    expect(sync.getStats().malformed).toBe(3);
+    expect(reputation.getReputation('mallory')!.accuracy).toBeLessThan(0.5);
+
+    const flooder = new MemoryTransport('flooder', bus);
+    for (let i = 0; i < 5; i++) {
+      flooder.send('node', { type: 'SYNC_RANGES', from: 'flooder', ts: Date.now(), ranges: [syncRange('', [])] });
+    }
+    expect(sync.getStats().rateLimited).toBe(2);
+  });
+});
+
+describe('Dedupe Window', () => {
+  it('should expire whole epochs as the window slides', () => {
+    const window = new DedupeWindow(1_000, 4, 100);
+    window.add('a', 10_000, 10_000);
+    window.add('b', 10_400, 10_400);
+
+    expect(window.horizon(10_400)).toBe(9_500);
+    expect(window.has('a')).toBe(true);
+
+    window.expire(11_100);
+    expect(window.has('a')).toBe(false);
+    expect(window.has('b')).toBe(true);
+    expect(window.add('c', 10_000, 11_100)).toBe(false);
+    expect(window.size).toBe(1);
+  });
+
+  it('should raise the horizon instead of forgetting keys inside it', () => {
+    const window = new DedupeWindow(1_000, 4, 3);
+    ['a', 'b', 'c'].forEach(k => window.add(k, 10_000, 10_300));
+    window.add('d', 10_250, 10_300);
+
+    // The oldest epoch went early; its timestamps are no longer accepted
+    expect(window.has('a')).toBe(false);
+    expect(window.horizon(10_300)).toBe(10_250);
+    expect(window.covers(10_000, 10_300)).toBe(false);
+  });
+
+  it('should reject a replay of a signal older than the window', async () => {
+    const { transports, identities } = await createKeyedSwarm(2);
+    const [author] = identities;
+    const propagation = new Propagation(transports[1], new ReputationSystem(), new QuarantineSystem(), {
+      dedupeWindowMs: 60_000,
+    });
+    const rejected: string[] = [];
+    propagation.setCallbacks({ onRejected: (_s, _f, reason) => rejected.push(reason) });
+
+    const builder = createSignalBuilder(author.publicKeyHex, author.privateKeyHex, 'default');
+    const fresh = await buildSignal(builder, { claim_hash: 'c', direction: 'strengthen', confidence: 0.9 });
+    const stale = await signSignal({ ...fresh, timestamp: Date.now() - 120_000 }, author.privateKeyHex, fresh.routing);
+
+    expect(await propagation.onIncoming(fresh, author.publicKeyHex)).not.toBeNull();
+    expect(await propagation.onIncoming(fresh, author.publicKeyHex)).toBeNull();
+    expect(await propagation.onIncoming(stale, author.publicKeyHex)).toBeNull();
+
+    expect(rejected).toEqual(['Outside dedupe window']);
+    expect(propagation.getStats()).toMatchObject({ duplicates: 1, stale: 1, verified: 1 });
+  });
+});
+
+describe('Clock Skew', () => {
+  it('should estimate peer skew from heartbeats without extending liveness', async () => {
+    const { transports, identities } = await createKeyedSwarm(2);
+    const node = new SwarmNode(transports[0], identities[0].privateKeyHex);
+    const peer = new SwarmNode(transports[1], identities[1].privateKeyHex);
+    node.start();
+    peer.start();
+    await waitFor(() => node.membership.skewOf(peer.id) !== undefined);
+    expect(node.membership.isSkewed(peer.id)).toBe(false);
+
+    const hourAhead = Date.now() + 3_600_000;
+    peer.wire.broadcast({ type: 'HEARTBEAT', from: peer.id, ts: hourAhead });
+    await waitFor(() => node.membership.isSkewed(peer.id));
+
+    expect(node.membership.skewOf(peer.id)!).toBeGreaterThan(600_000);
+    expect(node.membership.getPeer(peer.id)!.lastSeen).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('should reject far-future signals as a violation by their author', async () => {
+    const { transports, identities } = await createKeyedSwarm(2);
+    const node = new SwarmNode(transports[0], identities[0].privateKeyHex);
+    const peer = new SwarmNode(transports[1], identities[1].privateKeyHex);
+    node.start();
+    peer.start();
+    const rejected: string[] = [];
+    node.propagation.setCallbacks({ onRejected: (_s, _f, reason) => rejected.push(reason) });
+
+    const builder = createSignalBuilder(peer.id, identities[1].privateKeyHex, 'default');
+    const base = await buildSignal(builder, { claim_hash: 'clock', direction: 'strengthen', confidence: 0.9 });
+    const send = async (timestamp: number, claim: string) => {
+      const body = { ...base, timestamp, payload: { ...base.payload, claim_hash: claim } };
+      const signal = await signSignal(body, identities[1].privateKeyHex, base.routing);
+      peer.wire.send(node.id, { type: 'LEARNING_SIGNAL', from: peer.id, ts: Date.now(), signal });
+    };
+
+    await send(Date.now() + 10_000, 'slightly-ahead');
+    await send(Date.now() + 1e9, 'far-ahead');
+    await waitFor(() => node.beliefs.get('slightly-ahead') !== undefined && rejected.length === 1);
+
+    expect(rejected).toEqual(['Timestamp in future']);
+    expect(node.beliefs.get('far-ahead')).toBeUndefined();
+    expect(node.propagation.getStats().skewed).toBe(1);
+    expect(node.reputation.getReputation(peer.id)!.violations).toBe(1);
+  });
+});
+
+describe('Hybrid Logical Clocks', () => {
+  it('should advance past received stamps and ignore ones too far ahead', () => {
+    let wall = 1_000;
+    const clock = new HybridClock(30_000, () => wall);
+
+    expect(clock.now()).toEqual({ wall: 1_000, logical: 0 });
+    expect(clock.now()).toEqual({ wall: 1_000, logical: 1 });
+
+    // A peer slightly ahead pulls us forward; we stay ahead of its stamp
+    expect(clock.receive({ wall: 5_000, logical: 3 })).toBe(true);
+    expect(clock.now()).toEqual({ wall: 5_000, logical: 5 });
+
+    expect(clock.receive({ wall: 1e12, logical: 0 })).toBe(false);
+    wall = 6_000;
+    expect(clock.now()).toEqual({ wall: 6_000, logical: 0 });
+  });
+
+  it('should order beliefs causally and break ties by source id', async () => {
+    const [alice, bob] = await Promise.all([generateIdentity(), generateIdentity()]);
+    const fromAlice = createSignalBuilder(alice.publicKeyHex, alice.privateKeyHex, 'default', new HybridClock(Infinity, () => 1_000));
+    const bobClock = new HybridClock(Infinity, () => 500);
+    const fromBob = createSignalBuilder(bob.publicKeyHex, bob.privateKeyHex, 'default', bobClock);
+
+    // Bob's wall clock is behind, but he answers after seeing Alice's signal
+    const first = await buildSignal(fromAlice, { claim_hash: 'c', direction: 'strengthen', confidence: 0.9 });
+    bobClock.receive(first.hlc!);
+    const reply = await buildSignal(fromBob, { claim_hash: 'c', direction: 'weaken', confidence: 0.4 });
+    expect(compareHlc(reply.hlc!, first.hlc!)).toBeGreaterThan(0);
+
+    for (const order of [[first, reply], [reply, first]]) {
+      const store = new BeliefStore();
+      order.forEach(s => store.apply(s));
+      expect(store.get('c')!.lastSignalId).toBe(reply.signal_id);
+    }
+
+    // Identical stamps from different authors: the greater source id wins everywhere
+    const tieAlice = await buildSignal(fromAlice, { claim_hash: 't', direction: 'strengthen', confidence: 0.9 });
+    const tieBob = await signSignal({ ...reply, payload: { ...reply.payload, claim_hash: 't' }, hlc: tieAlice.hlc }, bob.privateKeyHex, reply.routing);
+    const winner = alice.publicKeyHex > bob.publicKeyHex ? tieAlice : tieBob;
+    for (const order of [[tieAlice, tieBob], [tieBob, tieAlice]]) {
+      const store = new BeliefStore();
+      order.forEach(s => store.apply(s));
+      expect(store.get('t')!.lastSignalId).toBe(winner.signal_id);
+    }
+  });
+
+  it('should merge audit logs from several nodes into a causal timeline', async () => {
+    const { transports, identities } = await createKeyedSwarm(2);
+    const author = new SwarmNode(transports[0], identities[0].privateKeyHex);
+    const reader = new SwarmNode(transports[1], identities[1].privateKeyHex);
+    author.start();
+    reader.start();
+
+    const signal = await author.publishBelief('merge', 'strengthen', 0.8);
+    await waitFor(() => reader.beliefs.get('merge') !== undefined);
+
+    const timeline = mergeTimelines([
+      { node: reader.id, entries: reader.audit.export().entries },
+      { node: author.id, entries: author.audit.export().entries },
+    ]);
+    const sent = timeline.findIndex(e => e.kind === 'OUT_BROADCAST' && e.node === author.id);
+    const received = timeline.findIndex(e => e.kind === 'IN' && e.node === reader.id);
+
+    expect(sent).toBeGreaterThanOrEqual(0);
+    expect(received).toBeGreaterThan(sent);
+    expect(timeline[sent].hlc).toEqual(signal.hlc);
+    expect(reader.audit.verify().valid).toBe(true);
+  });
+});
+
+describe('Rate Limiting', () => {
+  async function signalsFrom(count: number) {
+    const author = await generateIdentity();
+    const builder = createSignalBuilder(author.publicKeyHex, author.privateKeyHex, 'default');
+    const signals = await Promise.all(
+      Array(count).fill(0).map((_, i) => buildSignal(builder, { claim_hash: `flood-${i}`, direction: 'strengthen', confidence: 0.5 }))
+    );
+    return { author, signals };
+  }
+
+  it('should refill buckets at an influence-scaled rate and penalize once per overrun', () => {
+    const limiter = new RateLimiter(1, 2);
+    const takes = (peer: string, n: number, scale: number, now: number) =>
+      Array(n).fill(0).map(() => limiter.take(peer, scale, now).allowed).filter(Boolean).length;
+
+    expect(takes('new', 5, 1, 0)).toBe(2);
+    expect(takes('trusted', 30, 10, 0)).toBe(20);
+
+    expect(limiter.take('new', 1, 0)).toEqual({ allowed: false, penalize: false });
+    expect(limiter.take('new', 1, 1_000)).toEqual({ allowed: true, penalize: false });
+    expect(limiter.take('new', 1, 1_000)).toEqual({ allowed: false, penalize: true });
+  });
+
+  it('should drop over-budget authors after verification and relays before it', async () => {
+    const { author, signals } = await signalsFrom(12);
+    const reputation = new ReputationSystem();
+    const propagation = new Propagation(new MemoryTransport('me', new MemoryBus()), reputation, new QuarantineSystem(), {
+      sourceRatePerSec: 0.5,
+      relayRatePerSec: 1,
+      rateBurstSeconds: 8,
+    });
+    const rejected: string[] = [];
+    propagation.setCallbacks({ onRejected: (_s, _f, reason) => rejected.push(reason) });
+
+    // Two relays share the author's budget of 4; each has 8 of its own
+    for (const [i, signal] of signals.entries()) {
+      await propagation.onIncoming(signal, i % 2 ? 'relay-a' : 'relay-b');
+    }
+    expect(rejected.filter(r => r === 'Source rate limit exceeded')).toHaveLength(8);
+    expect(reputation.getReputation(author.publicKeyHex)!.accuracy).toBeCloseTo(0.4);
+
+    const { signals: more } = await signalsFrom(6);
+    const before = propagation.getStats().verified;
+    for (const signal of more) {
+      await propagation.onIncoming(signal, 'relay-a');
+    }
+    expect(rejected.filter(r => r === 'Relay rate limit exceeded')).toHaveLength(4);
+    expect(propagation.getStats().verified - before).toBe(2);
+  });
+
+  it('should shed signals while the verification queue is full', async () => {
+    const { signals } = await signalsFrom(5);
+    const propagation = new Propagation(new MemoryTransport('me', new MemoryBus()), new ReputationSystem(), new QuarantineSystem(), {
+      maxInboundQueue: 2,
+    });
+
+    const results = await Promise.all(signals.map(s => propagation.onIncoming(s, 'relay')));
+    expect(results.filter(r => r !== null)).toHaveLength(2);
+    expect(propagation.getStats().shed).toBe(3);
+    expect(propagation.backlogged).toBe(false);
+
+    // Shed signals were never marked seen, so a later copy is accepted
+    expect(await propagation.onIncoming(signals[4], 'relay')).not.toBeNull();
+  });
+});
+
+describe('Priority Lanes', () => {
+  const digest = (i: number): WireMessage => ({ type: 'GOSSIP_DIGEST', from: 'peer', ts: i, keys: [] });
+  const vote: WireMessage = { type: 'ARBITRATION_VOTE', from: 'peer', ts: 0, proposalId: 'p', option: 'a', weight: 1 };
+  const peers: WireMessage = { type: 'PEER_LIST', from: 'peer', ts: 0, peers: [] };
+
+  it('should drain control before coordination before learning', () => {
+    const inbox = new PriorityInbox();
+    inbox.push(digest(1));
+    inbox.push(peers);
+    inbox.push(vote);
+
+    expect([inbox.next(), inbox.next(), inbox.next()].map(m => m!.type))
+      .toEqual(['ARBITRATION_VOTE', 'PEER_LIST', 'GOSSIP_DIGEST']);
+    expect(inbox.next()).toBeUndefined();
+  });
+
+  it('should shed the lowest lane when full', () => {
+    const inbox = new PriorityInbox(undefined, { maxWireQueue: 3 });
+    for (let i = 0; i < 3; i++) inbox.push(digest(i));
+
+    expect(inbox.push(digest(3))).toBe(false);
+    expect(inbox.push(vote)).toBe(true);
+    expect(inbox.getStats()).toEqual({
+      queued: { control: 1, coordination: 0, learning: 2 },
+      shed: { control: 0, coordination: 0, learning: 2 },
+    });
+    expect(inbox.next()!.type).toBe('ARBITRATION_VOTE');
+    expect(inbox.next()!.ts).toBe(1);
+  });
+
+  it('should hold learning traffic to a smaller cap while learning propagation is paused', () => {
+    const tState = new TStateManager();
+    const inbox = new PriorityInbox(tState, { degradedLearningQueue: 2 });
+    for (let i = 0; i < 5; i++) inbox.push(digest(i));
+    expect(inbox.getStats().queued.learning).toBe(5);
+
+    // Backlog queued before degrading is trimmed to the cap, oldest first
+    tState.force(TState.T2);
+    expect(inbox.next()!.ts).toBe(3);
+    expect(inbox.push(digest(5))).toBe(true);
+    expect(inbox.push(digest(6))).toBe(false);
+    expect(inbox.push(vote)).toBe(true);
+    expect(inbox.getStats().shed.learning).toBe(4);
+
+    tState.force(TState.T4);
+    expect(inbox.push(digest(7))).toBe(true);
+  });
+
+  it('should deliver a vote ahead of a learning backlog', async () => {
+    const bus = new MemoryBus();
+    const sender = await generateIdentity();
+    const receiverKey = await generateIdentity();
+    const raw = new MemoryTransport(sender.publicKeyHex, bus);
+    const receiver = new SignedTransport(
+      new MemoryTransport('receiver', bus),
+      receiverKey.privateKeyHex,
+      undefined,
+      undefined,
+      new PriorityInbox(undefined, { maxConcurrentVerify: 2 })
+    );
+    const order: string[] = [];
+    receiver.onMessage(m => order.push(m.type));
+
+    const from = sender.publicKeyHex;
+    const backlog = await Promise.all(
+      Array(100).fill(0).map((_, i) => signWire({ ...digest(i), from }, sender.privateKeyHex))
+    );
+    const signedVote = await signWire({ ...vote, from }, sender.privateKeyHex);
+    for (const m of backlog) raw.send('receiver', m);
+    raw.send('receiver', signedVote);
+
+    await waitFor(() => order.length === 101, 10_000);
+    expect(order.indexOf('ARBITRATION_VOTE')).toBeLessThan(3);
+  });
+});
+
+describe('T-State Propagation', () => {
+  it('should forward, narrow, hold and flush across a T0 to T4 cycle', async () => {
+    const { bus, transports, identities } = await createKeyedSwarm(2);
+    const node = new SwarmNode(transports[0], identities[0].privateKeyHex, { holdFlushBatch: 1 });
+    const observed: Array<{ claim: string; ttl: number }> = [];
+    new MemoryTransport('observer', bus).onMessage(m => {
+      if (m.type === 'LEARNING_SIGNAL') observed.push({ claim: m.signal.payload.claim_hash, ttl: m.signal.routing.ttl });
+    });
+    const peer = createSignalBuilder(identities[1].publicKeyHex, identities[1].privateKeyHex, 'default');
+    const relay = async (claim: string) => node.propagation.onIncoming(
+      await buildSignal(peer, { claim_hash: claim, direction: 'strengthen', confidence: 0.7 }),
+      identities[1].publicKeyHex
+    );
+    const settle = () => new Promise(r => setTimeout(r, 50));
+
+    // T0: everything forwarded with full ttl
+    await node.publishBelief('t0-own', 'strengthen', 0.8);
+    await relay('t0-relayed');
+    await waitFor(() => observed.length === 2);
+    expect(observed).toEqual([
+      { claim: 't0-own', ttl: DEFAULT_CONFIG.defaultTtl },
+      { claim: 't0-relayed', ttl: DEFAULT_CONFIG.defaultTtl - 1 },
+    ]);
+
+    // T1: still forwarded, but only a couple of hops further
+    node.tState.force(TState.T1);
+    await node.publishBelief('t1-own', 'strengthen', 0.8);
+    await relay('t1-relayed');
+    await waitFor(() => observed.length === 4);
+    expect(observed.slice(2).map(o => o.ttl)).toEqual([DEFAULT_CONFIG.degradedTtl, DEFAULT_CONFIG.degradedTtl]);
+
+    // T2 and T3: own signals held, relayed signals accepted but not forwarded
+    node.tState.force(TState.T2);
+    const held = await node.publishBelief('t2-own', 'strengthen', 0.8);
+    expect(await relay('t2-relayed')).not.toBeNull();
+    node.tState.force(TState.T3);
+    await node.publishBelief('t3-own', 'strengthen', 0.8);
+    await node.processTick();
+    await settle();
+    expect(observed).toHaveLength(4);
+    expect(node.propagation.heldCount).toBe(2);
+    expect(node.beliefs.get('t2-relayed')).toBeDefined();
+
+    // A held signal offered again is still held once
+    await node.propagation.publish(held);
+    expect(node.propagation.heldCount).toBe(2);
+
+    // T4: released one batch per tick, oldest first, with full ttl
+    node.tState.force(TState.T4);
+    await node.processTick();
+    await waitFor(() => observed.length === 5);
+    await node.processTick();
+    await waitFor(() => observed.length === 6);
+    expect(observed.slice(4)).toEqual([
+      { claim: 't2-own', ttl: DEFAULT_CONFIG.defaultTtl },
+      { claim: 't3-own', ttl: DEFAULT_CONFIG.defaultTtl },
+    ]);
+
+    // Back in T0 the queue is empty and nothing is sent twice
+    node.tState.force(TState.T0);
+    await node.processTick();
+    await settle();
+    expect(observed).toHaveLength(6);
+    expect(node.propagation.getStats()).toMatchObject({ held: 2, released: 2 });
+  });
+});
+
+describe('Relay Trails', () => {
+  it('should show the signed delivery path of a relayed belief', async () => {
+    const nodes = await createLine(4, { signRelayHops: true });
+    await nodes[0].publishBelief('trail-claim', 'strengthen', 0.8);
+    await waitFor(() => nodes[3].beliefs.get('trail-claim') !== undefined);
+
+    const delivery = why(nodes[3].beliefs, 'trail-claim')!.delivery;
+    expect(delivery.map(h => [h.relay, h.signed, h.ttl])).toEqual([
+      [nodes[1].id, true, DEFAULT_CONFIG.defaultTtl - 1],
+      [nodes[2].id, true, DEFAULT_CONFIG.defaultTtl - 2],
+    ]);
+    expect(nodes[3].propagation.getRelayRecord(nodes[1].id)).toEqual({ relayed: 1, tampered: 0, dropped: 0, delayed: 0 });
+  });
+
+  it('should charge tampered, dropped and delayed copies to the relay that signed them', async () => {
+    const { transports, identities } = await createKeyedSwarm(4);
+    const [author, r1, r2] = identities;
+    const reputation = new ReputationSystem();
+    const propagation = new Propagation(transports[3], reputation, new QuarantineSystem(), { signRelayHops: true });
+    const rejected: string[] = [];
+    const faults: string[] = [];
+    propagation.setCallbacks({
+      onRejected: (_s, _f, reason) => rejected.push(reason),
+      onRelayFault: (_s, relay, fault) => faults.push(`${relay === r1.publicKeyHex ? 'r1' : 'r2'}:${fault}`),
+    });
+
+    const builder = createSignalBuilder(author.publicKeyHex, author.privateKeyHex, 'default');
+    const now = Date.now();
+    const deliver = async (claim: string, ttl1: number, ttl2: number, delayMs = 0) => {
+      const signal = await buildSignal(builder, { claim_hash: claim, direction: 'strengthen', confidence: 0.6 });
+      const hop1 = await signHop({ ...signal, routing: { ...signal.routing, ttl: ttl1 } }, r1.publicKeyHex, r1.privateKeyHex, now);
+      const hop2 = await signHop({ ...hop1, routing: { ...hop1.routing, ttl: ttl2 } }, r2.publicKeyHex, r2.privateKeyHex, now + delayMs);
+      return propagation.onIncoming(hop2, r2.publicKeyHex);
+    };
+
+    expect(await deliver('honest', 7, 6)).not.toBeNull();
+    expect(await deliver('inflated', 5, 7)).toBeNull();
+    expect(await deliver('cut-short', 7, 1)).not.toBeNull();
+    expect(await deliver('late', 7, 6, 60_000)).not.toBeNull();
+    expect(rejected).toEqual(['Relay raised ttl']);
+    expect(faults).toEqual(['r2:tampered', 'r2:dropped', 'r2:delayed']);
+
+    // A trail the sender did not sign last is the sender's fault
+    const signal = await buildSignal(builder, { claim_hash: 'forged', direction: 'strengthen', confidence: 0.6 });
+    const foreign = await signHop(signal, r1.publicKeyHex, r1.privateKeyHex);
+    expect(await propagation.onIncoming(foreign, r2.publicKeyHex)).toBeNull();
+    expect(rejected).toContain('Invalid relay trail');
+
+    expect(propagation.getRelayRecord(r2.publicKeyHex)).toEqual({ relayed: 3, tampered: 2, dropped: 1, delayed: 1 });
+    expect(propagation.getRelayRecord(r1.publicKeyHex)).toMatchObject({ relayed: 3, tampered: 0 });
+  });
+});
+
+describe('Belief Aggregation', () => {
+  async function contested() {
+    const [a, b, sybil] = await Promise.all([generateIdentity(), generateIdentity(), generateIdentity()]);
+    const builder = (id: { publicKeyHex: string; privateKeyHex: string }) =>
+      createSignalBuilder(id.publicKeyHex, id.privateKeyHex, 'default');
+    const fromA = builder(a);
+    const signals = [
+      await buildSignal(fromA, { claim_hash: 'c', direction: 'weaken', confidence: 0.5 }),
+      await buildSignal(builder(b), { claim_hash: 'c', direction: 'strengthen', confidence: 0.8 }),
+    ];
+    await new Promise(r => setTimeout(r, 5));
+    signals.push(await buildSignal(fromA, { claim_hash: 'c', direction: 'strengthen', confidence: 0.8 }));
+    await new Promise(r => setTimeout(r, 5));
+    signals.push(await buildSignal(builder(sybil), { claim_hash: 'c', direction: 'weaken', confidence: 0.95 }));
+
+    const weights = new Map([[a.publicKeyHex, 0.8], [b.publicKeyHex, 0.8], [sybil.publicKeyHex, 0.1]]);
+    return { signals, influence: (id: string) => weights.get(id)! };
+  }
+
+  it('should let a later low-influence source flip only a last-writer-wins belief', async () => {
+    const { signals, influence } = await contested();
+    const beliefFor = (name: 'last-writer-wins' | 'reputation-weighted' | 'log-odds') => {
+      const store = new BeliefStore({ aggregation: aggregationStrategy(name), influence });
+      signals.forEach(s => store.apply(s));
+      return store.get('c')!;
+    };
+
+    expect(beliefFor('last-writer-wins')).toMatchObject({ stance: 'weaken', confidence: 0.95 });
+
+    const weighted = beliefFor('reputation-weighted');
+    expect(weighted.stance).toBe('strengthen');
+    expect(weighted.confidence).toBeCloseTo((0.8 * 0.8 * 2 - 0.1 * 0.95) / 1.7);
+
+    // Two agreeing sources compound past either one's confidence
+    const logOdds = beliefFor('log-odds');
+    expect(logOdds.stance).toBe('strengthen');
+    expect(logOdds.confidence).toBeGreaterThan(0.8);
+
+    // One contribution per source: its latest stance
+    expect(weighted.contributions!.map(c => [c.stance, c.confidence, c.weight])).toEqual([
+      ['strengthen', 0.8, 0.8],
+      ['strengthen', 0.8, 0.8],
+      ['weaken', 0.95, 0.1],
+    ]);
+  });
+
+  it('should weight sources by the node\'s view of their influence', async () => {
+    const { transports, identities } = await createKeyedSwarm(2);
+    const node = new SwarmNode(transports[0], identities[0].privateKeyHex, { beliefAggregation: 'reputation-weighted' });
+    const builder = createSignalBuilder(identities[1].publicKeyHex, identities[1].privateKeyHex, 'default');
+    const signal = await buildSignal(builder, { claim_hash: 'w', direction: 'weaken', confidence: 0.6 });
+
+    await node.propagation.onIncoming(signal, identities[1].publicKeyHex);
+    const [contribution] = node.beliefs.get('w')!.contributions!;
+    expect(contribution.sourceId).toBe(identities[1].publicKeyHex);
+    expect(contribution.weight).toBeCloseTo(node.admission.getInfluence(identities[1].publicKeyHex));
+    expect(node.beliefs.get('w')).toMatchObject({ stance: 'weaken', confidence: 0.6 });
+  });
+});
+
+describe('Belief Ledger', () => {
+  async function authors(n: number) {
+    const ids = await Promise.all(Array.from({ length: n }, () => generateIdentity()));
+    return ids.map(id => ({ id: id.publicKeyHex, builder: createSignalBuilder(id.publicKeyHex, id.privateKeyHex, 'default') }));
+  }
+
+  it('should keep each source\'s latest assertion and ignore older copies arriving late', async () => {
+    const [a] = await authors(1);
+    const older = await buildSignal(a.builder, { claim_hash: 'c', direction: 'strengthen', confidence: 0.7 });
+    await new Promise(r => setTimeout(r, 5));
+    const newer = await buildSignal(a.builder, { claim_hash: 'c', direction: 'weaken', confidence: 0.4 });
+
+    const ledger = new BeliefLedger();
+    expect(ledger.record(newer)?.stance).toBe('weaken');
+    expect(ledger.record(older)).toBeUndefined();
+    expect(ledger.get('c', a.id)).toMatchObject({ signalId: newer.signal_id, stance: 'weaken', confidence: 0.4 });
+    expect(ledger.bySource(a.id)).toHaveLength(1);
+  });
+
+  it('should evict the stalest source past the per-claim bound', async () => {
+    const [a, b, c] = await authors(3);
+    const ledger = new BeliefLedger({ maxSources: 2 });
+    const removed: string[] = [];
+    ledger.onChange(({ sourceId, after }) => { if (!after) removed.push(sourceId); });
+
+    for (const author of [a, b, c]) {
+      ledger.record(await buildSignal(author.builder, { claim_hash: 'c', direction: 'strengthen', confidence: 0.5 }));
+      await new Promise(r => setTimeout(r, 5));
+    }
+
+    expect(removed).toEqual([a.id]);
+    expect(ledger.sources('c').map(x => x.sourceId).sort()).toEqual([b.id, c.id].sort());
+  });
+
+  it('should not let unknown sources displace a reputable one past the per-claim bound', async () => {
+    const [trusted, ...newcomers] = await authors(6);
+    const ledger = new BeliefLedger({
+      maxSources: 2,
+      influence: (sourceId) => (sourceId === trusted.id ? 0.9 : 0),
+    });
+
+    ledger.record(await buildSignal(trusted.builder, { claim_hash: 'c', direction: 'strengthen', confidence: 0.8 }));
+    for (const author of newcomers) {
+      await new Promise(r => setTimeout(r, 2));
+      ledger.record(await buildSignal(author.builder, { claim_hash: 'c', direction: 'weaken', confidence: 0.9 }));
+    }
+
+    const kept = ledger.sources('c').map(x => x.sourceId);
+    expect(kept).toHaveLength(2);
+    expect(kept).toContain(trusted.id);
+  });
+
+  it('should evict a claim from every view of the belief store', async () => {
+    const [a, b] = await authors(2);
+    const store = new BeliefStore({ maxClaims: 2 });
+    for (const claim of ['x', 'y', 'z']) {
+      store.apply(await buildSignal(a.builder, { claim_hash: claim, direction: 'strengthen', confidence: 0.5 }));
+    }
+    expect(store.get('x')).toBeUndefined();
+    expect(store.getHistory('x')).toBeUndefined();
+    expect(store.authorOf('x')).toBeUndefined();
+    expect(store.ledger.sources('x')).toEqual([]);
+    expect(store.all().map(s => s.claimHash).sort()).toEqual(['y', 'z']);
+
+    // A source the ledger evicts leaves the aggregate too
+    const bounded = new BeliefStore({ ledger: { maxSources: 1 } });
+    bounded.apply(await buildSignal(a.builder, { claim_hash: 'c', direction: 'strengthen', confidence: 0.9 }));
+    await new Promise(r => setTimeout(r, 5));
+    bounded.apply(await buildSignal(b.builder, { claim_hash: 'c', direction: 'weaken', confidence: 0.6 }));
+    expect(bounded.get('c')).toMatchObject({ stance: 'weaken', confidence: 0.6 });
+    expect(bounded.get('c')!.contributions!.map(c => c.sourceId)).toEqual([b.id]);
+    expect(bounded.authorOf('c')).toBe(b.id);
+  });
+
+  it('should fall back to a source\'s earlier assertion when the later one is revoked', async () => {
+    const [a] = await authors(1);
+    const store = new BeliefStore();
+    store.apply(await buildSignal(a.builder, { claim_hash: 'c', direction: 'strengthen', confidence: 0.7 }));
+    await new Promise(r => setTimeout(r, 20));
+    const cutoff = Date.now();
+    store.apply(await buildSignal(a.builder, { claim_hash: 'c', direction: 'weaken', confidence: 0.4 }));
+    expect(store.ledger.get('c', a.id)?.stance).toBe('weaken');
+
+    store.revoke(a.id, cutoff);
+    expect(store.ledger.get('c', a.id)).toMatchObject({ stance: 'strengthen', confidence: 0.7 });
+  });
+
+  it('should track drift and conflicts by author rather than by relay', async () => {
+    const { transports, identities } = await createKeyedSwarm(3);
+    const node = new SwarmNode(transports[0], identities[0].privateKeyHex);
+    const author = identities[1].publicKeyHex;
+    const relay = identities[2].publicKeyHex;
+    node.drift.track(author);
+    node.drift.track(relay);
+
+    const builder = createSignalBuilder(author, identities[1].privateKeyHex, 'default');
+    const signal = await buildSignal(builder, { claim_hash: 'r', direction: 'strengthen', confidence: 0.6 });
+    await node.propagation.onIncoming(signal, relay);
+
+    expect(Array.from(node.conflicts.get('r')!.stances.keys())).toEqual([author]);
+    const drift = new Map(node.drift.export().map(s => [s.peerId, s.beliefCount]));
+    expect(drift.get(author)).toBe(1);
+    expect(drift.get(relay)).toBe(0);
+
+    expect(why(node.beliefs, 'r')!.assertions).toEqual([
+      { sourceId: author, stance: 'strengthen', confidence: 0.6, signalId: signal.signal_id, timestamp: signal.timestamp },
+    ]);
+  });
+});
+
+describe('Belief Decay', () => {
+  const halfLife = { ...DEFAULT_CONFIG, beliefDecay: 'half-life' as const, beliefHalfLifeMs: 1_000 };
+
+  async function signalFrom(builder: ReturnType<typeof createSignalBuilder>, claim: string, confidence: number) {
+    return buildSignal(builder, { claim_hash: claim, direction: 'strengthen', confidence });
+  }
+
+  it('should decay confidence on read and expire stale beliefs to unknown', async () => {
+    const id = await generateIdentity();
+    const builder = createSignalBuilder(id.publicKeyHex, id.privateKeyHex, 'default');
+    const store = new BeliefStore({ decay: () => halfLife });
+    const signal = await signalFrom(builder, 'c', 0.8);
+    store.apply(signal);
+    const t0 = signal.timestamp;
+
+    expect(store.get('c', undefined, t0 + 1_000)!.confidence).toBeCloseTo(0.4);
+    expect(store.getConsensus(t0 + 2_000).get('c')!.confidence).toBeCloseTo(0.2);
+    expect(decayFactor(3_000, halfLife)).toBeCloseTo(0.125);
+
+    // 0.8 / 32 is below the 0.05 expiry confidence
+    const stale = store.get('c', undefined, t0 + 5_000)!;
+    expect(stale).toMatchObject({ stance: 'unknown', confidence: 0, expired: true });
+    expect(store.getConsensus(t0 + 5_000).has('c')).toBe(false);
+
+    // Expiry is reported once, until a newer signal revives the belief
+    expect(store.sweepExpired(t0 + 5_000).map(b => b.claimHash)).toEqual(['c']);
+    expect(store.sweepExpired(t0 + 6_000)).toEqual([]);
+    await new Promise(r => setTimeout(r, 5));
+    const fresh = await signalFrom(builder, 'c', 0.9);
+    store.apply(fresh);
+    expect(store.sweepExpired(fresh.timestamp)).toEqual([]);
+    expect(store.sweepExpired(fresh.timestamp + 10_000)).toHaveLength(1);
+  });
+
+  it('should apply each domain\'s decay policy', async () => {
+    const id = await generateIdentity();
+    const step = { ...DEFAULT_CONFIG, beliefDecay: 'step' as const, beliefMaxAgeMs: 1_000 };
+    const store = new BeliefStore({ decay: domain => domain === 'ephemeral' ? step : DEFAULT_CONFIG });
+    const lasting = await signalFrom(createSignalBuilder(id.publicKeyHex, id.privateKeyHex, 'default'), 'c', 0.7);
+    const brief = await signalFrom(createSignalBuilder(id.publicKeyHex, id.privateKeyHex, 'ephemeral'), 'c', 0.7);
+    store.apply(lasting);
+    store.apply(brief);
+
+    const later = brief.timestamp + 999;
+    expect(store.get('c', 'ephemeral', later)!.confidence).toBe(0.7);
+    expect(store.get('c', 'ephemeral', later + 1)!.stance).toBe('unknown');
+    expect(store.get('c', undefined, later + 1_000_000)!.confidence).toBe(0.7);
+  });
+
+  it('should weigh conflicting observations by their decayed confidence', () => {
+    const conflicts = new ConflictAccumulator({ ...halfLife, beliefDivergenceThreshold: 0.6 });
+    const now = Date.now();
+    conflicts.observeBelief('a', 'c', 'strengthen', 0.8, now);
+    conflicts.observeBelief('b', 'c', 'weaken', 0.8, now - 1_000);
+    // The older observation already counts half as much
+    const score = conflicts.get('c')!.conflictScore;
+    expect(score).toBeCloseTo(-(2 / 3) * Math.log2(2 / 3) - (1 / 3) * Math.log2(1 / 3));
+
+    // Both decay at the same rate until the older one expires
+    conflicts.refresh(now + 2_000);
+    expect(conflicts.get('c')!.conflictScore).toBeCloseTo(score);
+    conflicts.refresh(now + 3_500);
+    expect(conflicts.get('c')!.conflictScore).toBe(0);
+  });
+
+  it('should report expired beliefs and drop them from drift consensus', async () => {
+    const { transports, identities } = await createKeyedSwarm(2);
+    const node = new SwarmNode(transports[0], identities[0].privateKeyHex, {
+      domainPolicies: { ephemeral: { beliefDecay: 'step', beliefMaxAgeMs: 30 } },
+    });
+    const expired: Array<[string, string]> = [];
+    node.setCallbacks({ onBeliefExpired: (claim, domain) => expired.push([claim, domain]) });
+
+    const builder = createSignalBuilder(identities[1].publicKeyHex, identities[1].privateKeyHex, 'ephemeral');
+    await node.propagation.onIncoming(await signalFrom(builder, 'e', 0.9), identities[1].publicKeyHex);
+    expect(node.beliefs.getConsensus().has('ephemeral/e')).toBe(true);
+
+    await new Promise(r => setTimeout(r, 40));
+    await node.processTick();
+    await node.processTick();
+    expect(expired).toEqual([['e', 'ephemeral']]);
+    expect(node.beliefs.getConsensus().has('ephemeral/e')).toBe(false);
+  });
+
+  it('should compare decayed peer beliefs with decayed consensus for drift', async () => {
+    const { transports, identities } = await createKeyedSwarm(2);
+    const node = new SwarmNode(transports[0], identities[0].privateKeyHex, { beliefDecay: 'half-life', beliefHalfLifeMs: 1_000 });
+    const peer = identities[1].publicKeyHex;
+    const signal = await signalFrom(createSignalBuilder(peer, identities[1].privateKeyHex, 'default'), 'c', 0.9);
+    await node.propagation.onIncoming(signal, peer);
+
+    // Three half-lives on, the peer still agrees with consensus
+    const later = signal.timestamp + 3_000;
+    node.drift.track(peer, later);
+    expect(node.beliefs.getConsensus(later).get('c')!.confidence).toBeCloseTo(0.1125);
+    expect(node.drift.check(node.beliefs.getConsensus(later), later)).toEqual([]);
+    expect(node.drift.getDriftScore(peer)).toBeCloseTo(0);
+  });
+
+  it('should decay each contribution from its own signal', async () => {
+    const [a, b] = await Promise.all([generateIdentity(), generateIdentity()]);
+    const store = new BeliefStore({ decay: () => halfLife });
+    const older = await signalFrom(createSignalBuilder(a.publicKeyHex, a.privateKeyHex, 'default'), 'c', 0.8);
+    const newer = await signalFrom(createSignalBuilder(b.publicKeyHex, b.privateKeyHex, 'default'), 'c', 0.8);
+    newer.timestamp = older.timestamp + 1_000;
+    store.apply(older);
+    store.apply(newer);
+
+    const byId = new Map(store.get('c', undefined, older.timestamp + 1_000)!.contributions!.map(c => [c.sourceId, c.confidence]));
+    expect(byId.get(a.publicKeyHex)).toBeCloseTo(0.4);
+    expect(byId.get(b.publicKeyHex)).toBeCloseTo(0.8);
+  });
+});
+
+describe('Claims Registry', () => {
+  const rain = { text: 'It will rain in Lisbon tomorrow', domain: 'default', schema: { city: 'string' } };
+
+  it('should address claims by content and flood definitions to every peer', async () => {
+    const nodes = await createLine(3);
+    const dry = { text: 'Lisbon stays dry tomorrow', domain: 'default', relations: [{ kind: 'contradicts' as const, target: claimHash(rain) }] };
+
+    const rainHash = nodes[0].claims.define(rain);
+    const dryHash = nodes[0].claims.define(dry);
+    expect(rainHash).toBe(claimHash({ ...rain }));
+
+    await waitFor(() => nodes[2].claims.has(rainHash) && nodes[2].claims.has(dryHash));
+    expect(nodes[2].claims.meaningOf(rainHash)).toBe(rain.text);
+    expect(nodes[2].claims.relationsOf(rainHash)).toEqual([{ from: dryHash, kind: 'contradicts', to: rainHash }]);
+  });
+
+  it('should fetch the definition of an unknown claim from the peer that sent it', async () => {
+    const { transports, identities } = await createKeyedSwarm(2);
+    const [author, peer] = identities.map((id, i) => new SwarmNode(transports[i], id.privateKeyHex));
+    author.start();
+    const hash = author.claims.define(rain);   // Announced before the peer listens
+
+    peer.start();
+    await author.publishBelief(hash, 'strengthen', 0.7);
+    await waitFor(() => peer.claims.has(hash));
+    expect(peer.claims.get(hash)).toEqual(rain);
+  });
+
+  it('should drop definitions that do not hash to their address', async () => {
+    const { transports, identities } = await createKeyedSwarm(2);
+    const node = new SwarmNode(transports[0], identities[0].privateKeyHex, { claimTimeoutMs: 200 });
+    node.start();
+
+    const hash = claimHash(rain);
+    transports[1].onMessage(async (m) => {
+      if (m.type !== 'CLAIM_REQ') return;
+      transports[1].send(m.from, await signWire({
+        type: 'CLAIM_DEFINITION',
+        from: transports[1].id,
+        ts: Date.now(),
+        hash: m.hash,
+        definition: { ...rain, text: 'It will be sunny in Lisbon tomorrow' },
+      }, identities[1].privateKeyHex));
+    });
+
+    expect(await node.claims.fetch(hash)).toBeNull();
+    expect(node.claims.has(hash)).toBe(false);
+    expect(node.audit.forPeer(transports[1].id).some(e =>
+      (e.data as { action?: string }).action === 'claim_rejected'
+    )).toBe(true);
+  });
+
+  it('should reject malformed relations before storing anything', async () => {
+    const { transports, identities } = await createKeyedSwarm(2);
+    const node = new SwarmNode(transports[0], identities[0].privateKeyHex);
+    node.start();
+
+    const malformed = [5, [null], [{ kind: 'follows', target: claimHash(rain) }], [{ kind: 'implies', target: 'rain' }]]
+      .map(relations => ({ ...rain, relations } as unknown as ClaimDefinition));
+    for (const definition of malformed) {
+      expect(() => node.claims.define(definition)).toThrow('Malformed claim relations');
+      transports[1].send(transports[0].id, await signWire({
+        type: 'CLAIM_DEFINITION',
+        from: transports[1].id,
+        ts: Date.now(),
+        hash: claimHash(definition),
+        definition,
+      }, identities[1].privateKeyHex));
+    }
+
+    await waitFor(() => node.audit.forPeer(transports[1].id).filter(e =>
+      (e.data as { action?: string }).action === 'claim_rejected'
+    ).length === malformed.length);
+    expect(node.claims.size).toBe(0);
+    expect(node.claims.relationsOf(claimHash(rain))).toEqual([]);
+  });
+
+  it('should evict unused definitions when full and keep those beliefs refer to', () => {
+    const bus = new MemoryBus();
+    const held = new Set<string>();
+    const registry = new ClaimRegistry(new MemoryTransport('a', bus), { maxClaimDefinitions: 2 }, undefined, hash => held.has(hash));
+    const define = (text: string) => registry.define({ text, domain: 'default' });
+
+    const kept = define('kept');
+    held.add(kept);
+    for (let i = 0; i < 5; i++) define(`junk ${i}`);
+    expect(registry.size).toBe(2);
+    expect(registry.has(kept)).toBe(true);
+    expect(registry.has(claimHash({ text: 'junk 4', domain: 'default' }))).toBe(true);
+
+    // Full of definitions in use: newcomers are refused
+    held.add(claimHash({ text: 'junk 4', domain: 'default' }));
+    expect(registry.has(define('refused'))).toBe(false);
+  });
+
+  it('should rate-limit definitions per peer', async () => {
+    const { transports, identities } = await createKeyedSwarm(2);
+    const node = new SwarmNode(transports[0], identities[0].privateKeyHex, { claimRatePerSec: 1, rateBurstSeconds: 2 });
+    node.start();
+
+    const sent = 10;
+    for (let i = 0; i < sent; i++) {
+      const definition = { text: `flood ${i}`, domain: 'default' };
+      transports[1].send(transports[0].id, await signWire({
+        type: 'CLAIM_DEFINITION',
+        from: transports[1].id,
+        ts: Date.now(),
+        hash: claimHash(definition),
+        definition,
+      }, identities[1].privateKeyHex));
+    }
+
+    const rejected = () => node.audit.forPeer(transports[1].id).filter(e =>
+      (e.data as { action?: string }).action === 'claim_rejected'
+    );
+    await waitFor(() => rejected().length > 0);
+    await new Promise(r => setTimeout(r, 50));
+    expect(node.claims.size).toBeGreaterThan(0);
+    expect(node.claims.size).toBeLessThan(sent);
+    expect(rejected()).toHaveLength(1);
+  });
+
+  it('should define a known claim once and rate-limit requests per peer', async () => {
+    const bus = new MemoryBus();
+    const transport = new MemoryTransport('a', bus);
+    const asker = new MemoryTransport('b', bus);
+    const registry = new ClaimRegistry(transport, { claimRatePerSec: 1, rateBurstSeconds: 2 });
+    const rejected: string[] = [];
+    registry.setCallbacks({ onRejected: (_h, _f, reason) => rejected.push(reason) });
+    registry.start();
+    const received: WireMessage[] = [];
+    asker.onMessage(m => { received.push(m); });
+
+    const target = claimHash(rain);
+    const dry = { text: 'Lisbon stays dry tomorrow', domain: 'default', relations: [{ kind: 'contradicts' as const, target }] };
+    const hash = registry.define(dry);
+    expect(registry.define({ ...dry })).toBe(hash);
+    await new Promise(r => setTimeout(r, 10));
+    expect(received.filter(m => m.type === 'CLAIM_DEFINITION')).toHaveLength(1);
+    expect(registry.relationsOf(target)).toHaveLength(1);
+
+    received.length = 0;
+    for (let i = 0; i < 5; i++) asker.send('a', { type: 'CLAIM_REQ', from: 'b', ts: Date.now(), hash });
+    await new Promise(r => setTimeout(r, 10));
+    expect(received).toHaveLength(2);
+    expect(rejected).toEqual(['Claim request rate exceeded']);
+  });
+
+  it('should detect contradictions across related claims', () => {
+    const links: ClaimLink[] = [
+      { from: 'rain', kind: 'contradicts', to: 'dry' },
+      { from: 'storm', kind: 'implies', to: 'rain' },
+    ];
+    const conflicts = new ConflictAccumulator({}, hash => links.filter(l => l.from === hash || l.to === hash));
+    const found: string[] = [];
+    conflicts.setCallbacks({ onContradiction: c => found.push(`${c.claimHash} ${c.kind} ${c.relatedHash}`) });
+    const now = Date.now();
+
+    // Within each claim the peers agree
+    conflicts.observeBelief('a', 'rain', 'strengthen', 0.8, now);
+    conflicts.observeBelief('b', 'dry', 'weaken', 0.8, now);
+    expect(found).toEqual([]);
+
+    conflicts.observeBelief('c', 'dry', 'strengthen', 0.8, now);
+    expect(conflicts.get('dry')!.conflictScore).toBe(1);
+    expect(found).toEqual(['rain contradicts dry']);
+
+    // A storm implies rain, so holding it while rain is weakened contradicts
+    conflicts.observeBelief('d', 'storm', 'strengthen', 0.9, now);
+    expect(found).toHaveLength(1);
+    conflicts.observeBelief('e', 'rain', 'weaken', 0.9, now);
+    expect(found).toEqual(['rain contradicts dry', 'storm implies rain']);
+    expect(conflicts.contradicting().map(c => c.score)).toEqual([1, 1]);
+  });
+
+  it('should compare meaning as well as stance at checkpoints', async () => {
+    const { transports, identities } = await createKeyedSwarm(3);
+    const [node, peer] = [0, 1].map(i => new SwarmNode(transports[i], identities[i].privateKeyHex));
+    node.start();
+    peer.start();
+    const hash = node.claims.define(rain);
+    await waitFor(() => peer.claims.has(hash));
+    await peer.publishBelief(hash, 'strengthen', 0.6);
+
+    // A third peer answers under a different meaning
+    transports[2].onMessage(async (m) => {
+      if (m.type !== 'CHECKPOINT_REQ') return;
+      transports[2].send(m.from, await signWire({
+        type: 'CHECKPOINT_RESP',
+        from: transports[2].id,
+        ts: Date.now(),
+        claimHash: m.claimHash,
+        meaning: 'It will rain in Porto tomorrow',
+        stance: 'weaken',
+        confidence: 0.9,
+      }, identities[2].privateKeyHex));
+    });
+
+    let responses: CheckpointResponse[] = [];
+    node.checkpoints.requestCheckpoint(hash, r => { responses = [...r]; });
+    await waitFor(() => responses.length === 2);
+
+    const byPeer = new Map(responses.map(r => [r.peerId, r]));
+    expect(byPeer.get(peer.id)).toMatchObject({ meaning: rain.text, meaningMatches: true, stance: 'strengthen' });
+    expect(byPeer.get(transports[2].id)).toMatchObject({ meaningMatches: false });
+    expect(node.conflicts.get(hash)!.stances.has(transports[2].id)).toBe(false);
+    expect(node.conflicts.get(hash)!.meaning).toBe(rain.text);
+  });
+});
+
+describe('Consistency Checking', () => {
+  const belief = (claimHash: string, stance: BeliefState['stance']): BeliefState =>
+    ({ claimHash, stance, confidence: 0.8, updatedAt: Date.now() });
+  const relations = (links: ClaimLink[]) => (hash: string) => links.filter(l => l.from === hash || l.to === hash);
+
+  it('should find the minimal inconsistent subset behind each violation', () => {
+    const links: ClaimLink[] = [
+      { from: 'a', kind: 'implies', to: 'b' },
+      { from: 'b', kind: 'refines', to: 'c' },
+      { from: 'x', kind: 'contradicts', to: 'y' },
+    ];
+
+    // Through an unknown middle claim
+    const [chain] = checkConsistency([belief('a', 'strengthen'), belief('c', 'retract')], relations(links));
+    expect(chain.claims).toEqual(['a', 'b', 'c']);
+    expect(chain.links).toEqual(links.slice(0, 2));
+
+    // A held middle claim yields the smaller subset only
+    const held = checkConsistency([belief('a', 'strengthen'), belief('b', 'strengthen'), belief('c', 'weaken')], relations(links));
+    expect(held.map(v => v.claims)).toEqual([['b', 'c']]);
+
+    // A contradiction is found from both ends but reported once
+    expect(checkConsistency([belief('x', 'strengthen'), belief('y', 'strengthen')], relations(links))).toHaveLength(1);
+
+    // Consistent, or out of consideration
+    expect(checkConsistency([belief('a', 'strengthen'), belief('b', 'strengthen'), belief('c', 'strengthen')], relations(links))).toEqual([]);
+    expect(checkConsistency([belief('x', 'strengthen'), { ...belief('y', 'strengthen'), deprecated: true }], relations(links))).toEqual([]);
+  });
+
+  it('should report violations as they appear and clear', () => {
+    const conflicts = new ConflictAccumulator();
+    const events: string[] = [];
+    conflicts.setCallbacks({
+      onInconsistency: v => events.push(`+${v.id}`),
+      onInconsistencyResolved: v => events.push(`-${v.id}`),
+    });
+    const links: ClaimLink[] = [{ from: 'a', kind: 'implies', to: 'b' }];
+    const violations = checkConsistency([belief('a', 'strengthen'), belief('b', 'weaken')], relations(links));
+
+    conflicts.observeInconsistencies(violations);
+    conflicts.observeInconsistencies(violations);
+    expect(conflicts.inconsistencies()).toHaveLength(1);
+    conflicts.observeInconsistencies([]);
+    expect(events).toEqual(['+a implies b', '-a implies b']);
+  });
+
+  it('should take a node\'s violations to checkpoint or arbitration', async () => {
+    const { transports, identities } = await createKeyedSwarm(2);
+    const node = new SwarmNode(transports[0], identities[0].privateKeyHex, { inconsistencyAction: 'arbitrate' });
+    node.start();
+    const found: string[][] = [];
+    node.setCallbacks({ onInconsistencyDetected: v => found.push(v.claims) });
+
+    const wet = node.claims.define({ text: 'The street is wet', domain: 'default' });
+    const rain = node.claims.define({
+      text: 'It rained overnight',
+      domain: 'default',
+      relations: [{ kind: 'implies', target: wet }],
+    });
+    await node.publishBelief(rain, 'strengthen', 0.8);
+    await node.publishBelief(wet, 'retract', 0.6);
+    await node.processTick();
+
+    expect(found).toEqual([[rain, wet]]);
+    const [proposal] = node.arbitration.activeProposals();
+    expect(proposal.options).toEqual([rain, wet]);
+
+    // Checkpointing instead asks peers about every claim in the subset
+    const [violation] = node.conflicts.inconsistencies();
+    expect(node.resolveInconsistency(violation.id, 'checkpoint')).toHaveLength(2);
+    expect(node.checkpoints.pendingCount).toBe(2);
+  });
+});
@@ -15,14 +15,17 @@
  *   npm run demo:adversarial
  */
 
-import crypto from "crypto";
 import {
-  createMemorySwarm,
+  MemoryBus,
+  MemoryTransport,
+  generateIdentity,
   SwarmNode,
   createSignalBuilder,
   buildSignal,
   DEFAULT_CONFIG,
-  why
+  DEFAULT_DOMAIN,
+  why,
+  type Transport
 } from "@epistemic-swarm/core";
 
 type NodeBundle = {
@@ -34,17 +37,48 @@ type NodeBundle = {
 const CLAIM = "claim:target-X";
 const DOMAIN = "demo";
 
-function randomPrivKeyHex(): string {
-  return crypto.randomBytes(32).toString("hex");
+/**
+ * Memory swarm whose transport ids are fresh Ed25519 public keys. Peers
+ * verify every signal against its sender's id, so the ids must be keys.
+ */
+async function createKeyedSwarm(count: number): Promise<{ transports: Transport[]; privateKeys: string[] }> {
+  const bus = new MemoryBus();
+  const identities = await Promise.all(Array.from({ length: count }, () => generateIdentity()));
+  return {
+    transports: identities.map(id => new MemoryTransport(id.publicKeyHex, bus)),
+    privateKeys: identities.map(id => id.privateKeyHex),
+  };
 }
 
-async function makeNode(transport: any, config: Partial<typeof DEFAULT_CONFIG> = {}): Promise<NodeBundle> {
-  const privateKey = randomPrivKeyHex();
+async function makeNode(
+  transport: Transport,
+  privateKey: string,
+  config: Partial<typeof DEFAULT_CONFIG> = {}
+): Promise<NodeBundle> {
   const node = new SwarmNode(transport, privateKey, config);
   node.start();
   return { id: transport.id, node, privateKey };
 }
 
+/**
+ * Stand-in for a long-running deployment: every node in `group` has
+ * watched every member (itself included) behave well, swarm-wide and in
+ * the default domain. Reputation only ever grows this way over time.
+ */
+function establishHistory(group: NodeBundle[], rounds = 100) {
+  for (const { node } of group) {
+    for (const { id } of group) {
+      for (const reputation of [node.reputation, node.reputationFor(DEFAULT_DOMAIN)]) {
+        reputation.track(id);
+        for (let i = 0; i < rounds; i++) {
+          reputation.recordSuccess(id);
+          reputation.recordConsistency(id);
+        }
+      }
+    }
+  }
+}
+
 async function tickAll(nodes: NodeBundle[], steps: number, delayMs: number) {
   for (let i = 0; i < steps; i++) {
     await Promise.all(nodes.map(n => n.node.processTick()));
@@ -84,22 +118,25 @@ async function defendedOutcome(): Promise<void> {
 
   await naiveOutcome(honestCount, attackerCount);
 
-  const { transports } = createMemorySwarm(honestCount + attackerCount);
+  const { transports, privateKeys } = await createKeyedSwarm(honestCount + attackerCount);
 
-  // Defenses: new peers have low influence; voting requires minimum reputation.
+  // Defenses: new peers have low influence; voting requires minimum reputation;
+  // local beliefs weigh each source by influence instead of trusting the newest.
   // Keep defaults unless the repo changes them.
   const config = {
     ...DEFAULT_CONFIG,
-    maxPeers: 64
+    maxPeers: 64,
+    beliefAggregation: "reputation-weighted" as const
   };
 
   const honest: NodeBundle[] = [];
   const attackers: NodeBundle[] = [];
 
-  for (let i = 0; i < honestCount; i++) honest.push(await makeNode(transports[i], config));
+  for (let i = 0; i < honestCount; i++) honest.push(await makeNode(transports[i], privateKeys[i], config));
 
-  // Let honest nodes form stable membership first.
+  // Let honest nodes form stable membership and a track record first.
   await tickAll(honest, 40, 10);
+  establishHistory(honest);
 
   // Honest establishes a belief.
   await Promise.all(honest.map(h => h.node.publishBelief(CLAIM, "strengthen", 0.85, { scope: "cluster" })));
@@ -108,9 +145,12 @@ async function defendedOutcome(): Promise<void> {
 
   // Attackers join late and attempt a fast flip.
   for (let i = honestCount; i < honestCount + attackerCount; i++) {
-    attackers.push(await makeNode(transports[i], config));
+    attackers.push(await makeNode(transports[i], privateKeys[i], config));
   }
 
+  // Attackers vouch for each other, which convinces only their own nodes.
+  establishHistory(attackers);
+
   // Let membership see them.
   await tickAll([...honest, ...attackers], 40, 10);
 
@@ -170,11 +210,15 @@ if (conflict) {
   // Show reputation and quarantine summary.
   const exportState = leader.export();
   console.log("\nLeader security summary:");
-  console.log(`- peersKnown: ${exportState.status.peers}`);
-  console.log(`- quarantined: ${exportState.quarantine.quarantinedPeers.length}`);
-  console.log(`- reputationPeers: ${exportState.reputation.scores.length}`);
-
-  console.log("\nIf winner stays strengthen and attacker votes do not dominate, the defense holds.");
+  console.log(`- peersKnown: ${exportState.status.peerCount}`);
+  console.log(`- quarantined: ${exportState.quarantine.length}`);
+  console.log(`- reputationPeers: ${exportState.reputation.length}`);
+
+  const held = honest.filter(h => h.node.beliefs.get(CLAIM)?.stance === "strengthen").length;
+  console.log(`\nHonest nodes still holding strengthen: ${held}/${honest.length}`);
+  console.log(held === honest.length && winner !== "weaken"
+    ? "The defense held: the attackers did not flip the honest nodes."
+    : "The defense did not hold: the attackers outweighed the honest nodes.");
 }
 
 await defendedOutcome();